@@ -0,0 +1,65 @@
+/**
+ * chunk.ts – Split a language's entries into request-sized chunks
+ *
+ * One request per language breaks down on large screens and multi-frame
+ * flows: the prompt exceeds the context window or the model's JSON gets
+ * truncated. Entries are packed into chunks under a character budget
+ * (roughly 4 characters per token), keeping strings of the same source
+ * frame together so the model still sees their neighbours as context.
+ *
+ * Pure logic — runs in the UI iframe.
+ */
+import { TextEntry } from './types';
+import { sourceText } from './translate';
+
+/** Fixed JSON overhead per entry in the prompt payload ("id":{"text":…,"context":…}). */
+const ENTRY_OVERHEAD = 32;
+
+/** Smallest budget accepted, so a misconfigured value cannot produce one request per string. */
+export const MIN_CHUNK_BUDGET = 500;
+
+/** Approximate prompt characters an entry costs. */
+export function entrySize(entry: TextEntry): number {
+  return sourceText(entry).length + entry.nodeName.length + entry.id.length + ENTRY_OVERHEAD;
+}
+
+/**
+ * Pack entries (in scan order) into chunks of at most `budget` characters.
+ * A frame's entries start a fresh chunk when they do not fit in the current
+ * one; a frame larger than the budget is split into consecutive runs. A
+ * single entry larger than the budget gets a chunk of its own.
+ */
+export function chunkEntries(entries: TextEntry[], budget: number): TextEntry[][] {
+  const limit = Math.max(MIN_CHUNK_BUDGET, budget);
+
+  // Group by source frame, keeping first-seen order
+  const frames = new Map<string, TextEntry[]>();
+  for (const e of entries) {
+    const group = frames.get(e.frameId);
+    if (group) group.push(e);
+    else frames.set(e.frameId, [e]);
+  }
+
+  const chunks: TextEntry[][] = [];
+  let current: TextEntry[] = [];
+  let size = 0;
+  const flush = () => {
+    if (current.length > 0) chunks.push(current);
+    current = [];
+    size = 0;
+  };
+
+  for (const group of frames.values()) {
+    const groupSize = group.reduce((sum, e) => sum + entrySize(e), 0);
+    if (size + groupSize > limit) flush();
+
+    for (const e of group) {
+      const s = entrySize(e);
+      if (size + s > limit) flush();
+      current.push(e);
+      size += s;
+    }
+  }
+  flush();
+  return chunks;
+}
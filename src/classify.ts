@@ -0,0 +1,72 @@
+/**
+ * classify.ts – Code-like string classifier
+ *
+ * Decides whether a text layer holds something that must not be translated:
+ * code snippets, colour values, URLs, version strings, or strings made only
+ * of placeholders. Used by the scan step when `skipCodeLike` is on.
+ *
+ * Pure string logic — safe to import from both the controller and the UI.
+ */
+import { CodeLikeKind } from './types';
+
+export const CODE_LIKE_LABELS: Record<CodeLikeKind, string> = {
+  code: 'Code',
+  color: 'Colour',
+  url: 'URL',
+  version: 'Version',
+  placeholder: 'Placeholder',
+};
+
+// ── Patterns ──
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FN_COLOR = /^(?:rgba?|hsla?)\(\s*[\d.%\s,/]+\)$/i;
+const URL_LIKE = /^(?:[a-z][a-z0-9+.-]*:\/\/|www\.)\S+$/i;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+// "v1.2" or at least three parts ("1.2.3"); "4.8" and "9.99" are ratings and prices
+const VERSION = /^(?:v\d+(?:\.\d+){1,3}|\d+(?:\.\d+){2,3})(?:[-+][0-9a-z.-]+)?$/i;
+// "12.05.2024" has the shape of a version but is a date, which gets localised
+const DOTTED_DATE = /^\d{1,2}\.\d{1,2}\.\d{2,4}$/;
+const PLACEHOLDER = /\{\{\s*[\w.-]+\s*\}\}|\$\{[^}]+\}|\{[\w.-]*\}|%(?:\d+\$)?[sdif@]/g;
+const PUNCTUATION = /[\s.,:;!?'"()[\]\-–—…·/|•]/g;
+
+// Single tokens that read as identifiers rather than words
+const CAMEL_CASE = /^[a-z]{2,}(?:[A-Z][a-z0-9]*)+$/;
+const SNAKE_CASE = /^[a-z0-9]+(?:_[a-z0-9]+)+$/i;
+const FILE_NAME = /^[\w./-]+\.(?:tsx?|jsx?|json|css|scss|html|py|rb|go|java|kt|swift|md|ya?ml|svg|png|jpe?g)$/i;
+const CALL = /^[\w$.]+\(.*\);?$/;
+
+// Tokens that almost never appear in UI copy
+const CODE_MARKERS = /=>|::|;\s*$|^\s*(?:const|let|var|function|import|export|return|def|class)\s|<\/?[a-z][\w-]*(?:\s[^>]*)?>|\bnpm\s|&&|\|\|/;
+
+/**
+ * Classify a string. Returns the kind of code-like content, or null when
+ * the text looks like normal copy that should be translated.
+ */
+export function classifyCodeLike(text: string): CodeLikeKind | null {
+  const t = text.trim();
+  if (!t) return null;
+
+  if (HEX_COLOR.test(t) || FN_COLOR.test(t)) return 'color';
+  if (URL_LIKE.test(t) || EMAIL.test(t)) return 'url';
+  if (VERSION.test(t) && !DOTTED_DATE.test(t)) return 'version';
+
+  // Nothing but placeholders (plus whitespace/punctuation) → nothing to translate
+  const withoutPlaceholders = t.replace(PLACEHOLDER, '');
+  if (withoutPlaceholders !== t && !withoutPlaceholders.replace(PUNCTUATION, '')) {
+    return 'placeholder';
+  }
+
+  if (!/\s/.test(t)) {
+    if (CAMEL_CASE.test(t) || SNAKE_CASE.test(t) || FILE_NAME.test(t) || CALL.test(t)) {
+      return 'code';
+    }
+  }
+
+  if (CODE_MARKERS.test(t)) return 'code';
+
+  // Dense in brackets/operators → probably a snippet
+  const symbols = (t.match(/[{}[\]();=<>]/g) || []).length;
+  if (t.length >= 6 && symbols / t.length > 0.15 && /[;=()]/.test(t)) return 'code';
+
+  return null;
+}
@@ -16,27 +16,62 @@ import {
   TextEntry,
   Language,
   QAReport,
+  SourceFrame,
 } from './types';
 import {
   scanTextNodes,
   duplicateAndPlace,
   addLabel,
   applyTranslations,
-  mirrorAutoLayout,
 } from './duplicate';
+import {
+  mirrorLayoutRTL,
+  mergeMirrorReports,
+  describeMirrorReport,
+  MirrorReport,
+  flipDirectionalIcons,
+  describeIconFlipReport,
+} from './rtl';
 import { runQA } from './qa';
+import { fitLayout } from './fit';
+import { lookupMemory, rememberTranslations, listMemory, clearMemory } from './memory';
+import {
+  loadDocumentProfile,
+  publishDocumentProfile,
+  removeDocumentProfile,
+  applyDocumentProfile,
+} from './profile';
 
 // ────────────────────────────────────────────
 // State
 // ────────────────────────────────────────────
+/** Personal settings, as persisted in clientStorage. */
 let settings: PluginSettings = { ...DEFAULT_SETTINGS };
+/** Settings for the current run: personal settings with the document profile applied. */
+let runSettings: PluginSettings = { ...DEFAULT_SETTINGS };
 let cancelled = false;
+/** Everything the last scan found, including code-like entries. */
+let scannedEntries: TextEntry[] = [];
+/** Entries being translated in the current run (after skip overrides). */
 let originalEntries: TextEntry[] = [];
 
-/** Per-language clone data, keyed by language code. */
+/** Selected top-level nodes from the last scan. */
+let sourceFrames: SourceFrame[] = [];
+
+/**
+ * Per-language clone data (one clone per source frame), keyed by language
+ * code. `translations` holds the raw text applied so far (with inline tags),
+ * so QA can re-check every entry after a partial rewrite. `fontErrors` are
+ * from the last apply, for QA runs that apply nothing (layout fitting).
+ */
 const cloneMap = new Map<
   string,
-  { clone: SceneNode; textNodeMap: Map<string, TextNode> }
+  {
+    clones: SceneNode[];
+    textNodeMap: Map<string, TextNode>;
+    translations: Record<string, string>;
+    fontErrors: string[];
+  }
 >();
 
 /** Language objects stored during generation so we can look them up later. */
@@ -45,6 +80,9 @@ const languageMap = new Map<string, Language>();
 /** QA reports collected during generation. */
 const qaReports: QAReport[] = [];
 
+/** Mirroring summary per language, shown alongside later progress details. */
+const mirrorDetails = new Map<string, string>();
+
 /** Number of languages still pending (for all-complete detection). */
 let pendingCount = 0;
 
@@ -79,40 +117,110 @@ async function saveSettings(partial: Partial<PluginSettings>) {
   }
 }
 
-/** Validate that exactly one supported node is selected. */
-function validateSelection(): SceneNode | null {
-  const sel = figma.currentPage.selection;
-  if (sel.length !== 1) return null;
-  const node = sel[0];
+/**
+ * Return the supported selected nodes. Nodes nested inside another selected
+ * node are dropped — their text is already covered by the ancestor.
+ */
+function validateSelection(): SceneNode[] {
   const valid = ['INSTANCE', 'FRAME', 'GROUP', 'SECTION', 'COMPONENT'];
-  return valid.includes(node.type) ? node : null;
+  const sel = figma.currentPage.selection.filter(n => valid.includes(n.type));
+  const ids = new Set(sel.map(n => n.id));
+  return sel.filter(node => {
+    let current = node.parent;
+    while (current && current.type !== 'PAGE') {
+      if (ids.has(current.id)) return false;
+      current = current.parent;
+    }
+    return true;
+  });
+}
+
+/** Entries that will be translated, after the user's per-string classifier overrides. */
+function translatableEntries(entries: TextEntry[], overrides: Record<string, boolean>): TextEntry[] {
+  return entries.filter(e => !(e.nodeId in overrides ? overrides[e.nodeId] : e.skipped));
 }
 
 /** Perform a scan and send the result to the UI. */
 function performScan(): boolean {
-  const node = validateSelection();
-  if (!node) {
-    send({ type: 'scan-error', error: 'Select one frame, instance, group, or section.' });
+  const nodes = validateSelection();
+  if (nodes.length === 0) {
+    send({ type: 'scan-error', error: 'Select one or more frames, instances, groups, or sections.' });
     return false;
   }
-  const { entries, totalTextNodes, skippedEmpty, skippedLocked } = scanTextNodes(node);
-  originalEntries = entries;
+  const { entries, totalTextNodes, skippedEmpty, skippedLocked, skippedCodeLike } =
+    scanTextNodes(nodes, settings);
+  scannedEntries = entries;
+  sourceFrames = nodes.map(n => ({ nodeId: n.id, nodeName: n.name, nodeType: n.type }));
+  const single = nodes.length === 1;
   send({
     type: 'scan-result',
     result: {
-      nodeName: node.name,
-      nodeType: node.type,
-      nodeId: node.id,
+      nodeName: single ? nodes[0].name : `${nodes.length} frames`,
+      nodeType: single ? nodes[0].type : 'MULTIPLE',
+      nodeId: nodes[0].id,
+      frames: sourceFrames,
       totalTextNodes,
-      translatableNodes: entries.length,
+      translatableNodes: entries.length - skippedCodeLike,
       skippedEmpty,
       skippedLocked,
+      skippedCodeLike,
       textEntries: entries,
     },
   });
   return true;
 }
 
+/**
+ * Apply a language's translations to its clones, run QA and report the
+ * language as done. `detail` carries a failure that left strings untranslated.
+ */
+async function applyAndCheck(langCode: string, translations: Record<string, string>, detail?: string) {
+  const entry = cloneMap.get(langCode);
+  const language = languageMap.get(langCode);
+  if (!entry || !language) {
+    send({ type: 'error', error: `Internal: no clone for ${langCode}.` });
+    return;
+  }
+
+  // Apply phase
+  send({
+    type: 'language-progress',
+    progress: { langCode, langName: language.name, status: 'applying' },
+  });
+
+  const { fontErrors } = await applyTranslations(
+    entry.textNodeMap,
+    translations,
+    language,
+    runSettings,
+    originalEntries,
+  );
+
+  // QA — measure actual Figma layout for overflow
+  send({
+    type: 'language-progress',
+    progress: { langCode, langName: language.name, status: 'qa' },
+  });
+  entry.translations = { ...translations };
+  entry.fontErrors = fontErrors;
+  const qaReport = runQA(
+    entry.textNodeMap, originalEntries, language, fontErrors, sourceFrames,
+    entry.translations, runSettings,
+  );
+  qaReports.push(qaReport);
+
+  send({
+    type: 'language-progress',
+    progress: {
+      langCode,
+      langName: language.name,
+      status: 'done',
+      qaReport,
+      ...(detail ? { detail } : {}),
+    },
+  });
+}
+
 // ────────────────────────────────────────────
 // Message handler
 // ────────────────────────────────────────────
@@ -122,6 +230,7 @@ figma.ui.onmessage = async (msg: UIMessage) => {
     case 'init': {
       settings = await loadSettings();
       send({ type: 'init-complete', settings });
+      send({ type: 'profile-data', profile: loadDocumentProfile() });
       // Auto-scan if there is a valid selection
       performScan();
       break;
@@ -138,17 +247,25 @@ figma.ui.onmessage = async (msg: UIMessage) => {
       cancelled = false;
       cloneMap.clear();
       languageMap.clear();
+      mirrorDetails.clear();
       qaReports.length = 0;
 
-      const node = validateSelection();
-      if (!node) {
+      const nodes = validateSelection();
+      if (nodes.length === 0) {
         send({ type: 'error', error: 'Selection lost. Select a node and rescan.' });
         return;
       }
+      // The selection changed since the scan — entries would not line up
+      if (nodes.map(n => n.id).join() !== sourceFrames.map(f => f.nodeId).join()) {
+        send({ type: 'error', error: 'Selection changed. Rescan and try again.' });
+        return;
+      }
 
-      const { languages, settings: incoming } = msg;
+      const { languages, settings: incoming, skipOverrides } = msg;
       settings = incoming;
       await saveSettings(incoming);
+      runSettings = applyDocumentProfile(settings, loadDocumentProfile());
+      originalEntries = translatableEntries(scannedEntries, skipOverrides);
 
       // Store languages for later lookup
       for (const lang of languages) languageMap.set(lang.code, lang);
@@ -159,7 +276,7 @@ figma.ui.onmessage = async (msg: UIMessage) => {
       }
 
       // Pre-load label font
-      if (settings.showLabels) {
+      if (runSettings.showLabels) {
         try { await figma.loadFontAsync({ family: 'Inter', style: 'Regular' }); }
         catch (_e) { /* labels may fail, non-critical */ }
       }
@@ -174,48 +291,79 @@ figma.ui.onmessage = async (msg: UIMessage) => {
           progress: { langCode: lang.code, langName: lang.name, status: 'duplicating' },
         });
 
-        const { clone, textNodeMap } = duplicateAndPlace(
-          node, i, lang, settings, originalEntries,
+        const { clones, textNodeMap } = duplicateAndPlace(
+          nodes, i, lang, runSettings, originalEntries,
         );
-        cloneMap.set(lang.code, { clone, textNodeMap });
+        cloneMap.set(lang.code, { clones, textNodeMap, translations: {}, fontErrors: [] });
 
-        // Optional label
-        if (settings.showLabels) {
-          try { addLabel(clone, lang, settings); } catch (_e) { /* non-critical */ }
+        // Optional label (above the first clone of this language)
+        if (runSettings.showLabels) {
+          try { addLabel(clones[0], lang, runSettings); } catch (_e) { /* non-critical */ }
         }
 
-        // RTL mirror
-        if (lang.isRTL && settings.autoRTL && settings.mirrorLayout) {
-          const mirrored = mirrorAutoLayout(clone);
-          if (!mirrored) {
+        // RTL mirror (whole clone tree, recursively) + directional icons
+        if (lang.isRTL && runSettings.autoRTL) {
+          const details: string[] = [];
+          if (runSettings.mirrorLayout) {
+            let report: MirrorReport | null = null;
+            for (const clone of clones) {
+              const r = mirrorLayoutRTL(clone, runSettings);
+              report = report ? mergeMirrorReports(report, r) : r;
+            }
+            if (report) details.push(describeMirrorReport(report));
+          }
+          if (runSettings.flipIcons) {
+            const iconReport = { flipped: 0, swapped: 0, failed: 0 };
+            for (const clone of clones) {
+              const r = await flipDirectionalIcons(clone, runSettings);
+              iconReport.flipped += r.flipped;
+              iconReport.swapped += r.swapped;
+              iconReport.failed += r.failed;
+            }
+            const iconDetail = describeIconFlipReport(iconReport);
+            if (iconDetail) details.push(iconDetail);
+          }
+          if (details.length > 0) {
+            const detail = details.join(' · ');
+            mirrorDetails.set(lang.code, detail);
             send({
               type: 'language-progress',
-              progress: {
-                langCode: lang.code,
-                langName: lang.name,
-                status: 'duplicating',
-                detail: 'Mirroring skipped (layout not compatible)',
-              },
+              progress: { langCode: lang.code, langName: lang.name, status: 'duplicating', detail },
             });
           }
         }
       }
 
       // ── Request translations from the UI (one message per language) ──
+      // Entries already in translation memory are sent as `cached`;
+      // only the misses are left for the UI to translate.
       pendingCount = languages.length;
       for (const lang of languages) {
         if (cancelled) { send({ type: 'cancelled' }); return; }
+        // Pseudo-locales are generated locally and never touch memory
+        const cached = runSettings.useTranslationMemory && !lang.pseudo
+          ? await lookupMemory(originalEntries, lang.code, runSettings)
+          : {};
+        const misses = originalEntries.filter(e => !(e.id in cached));
+        const hits = originalEntries.length - misses.length;
+        const details = [mirrorDetails.get(lang.code), hits > 0 ? `${hits} from memory` : ''];
         send({
           type: 'language-progress',
-          progress: { langCode: lang.code, langName: lang.name, status: 'translating' },
+          progress: {
+            langCode: lang.code,
+            langName: lang.name,
+            status: 'translating',
+            detail: details.filter(Boolean).join(' · ') || undefined,
+          },
         });
         send({
           type: 'request-translation',
           langCode: lang.code,
           langName: lang.name,
           isRTL: lang.isRTL,
-          textEntries: originalEntries,
-          settings,
+          textEntries: misses,
+          cached,
+          settings: runSettings,
         });
       }
       break;
@@ -225,43 +373,12 @@ figma.ui.onmessage = async (msg: UIMessage) => {
     case 'translations-ready': {
       if (cancelled) return;
       const { langCode, translations } = msg;
-      const entry = cloneMap.get(langCode);
       const language = languageMap.get(langCode);
-      if (!entry || !language) {
-        send({ type: 'error', error: `Internal: no clone for ${langCode}.` });
-        return;
+      if (language && runSettings.useTranslationMemory && !language.pseudo) {
+        await rememberTranslations(originalEntries, langCode, runSettings, translations);
       }
 
-      // Apply phase
-      send({
-        type: 'language-progress',
-        progress: { langCode, langName: language.name, status: 'applying' },
-      });
-
-      const { fontErrors } = await applyTranslations(
-        entry.textNodeMap,
-        translations,
-        language,
-        settings,
-      );
-
-      // QA — measure actual Figma layout for overflow
-      send({
-        type: 'language-progress',
-        progress: { langCode, langName: language.name, status: 'qa' },
-      });
-      const qaReport = runQA(entry.textNodeMap, originalEntries, language, fontErrors);
-      qaReports.push(qaReport);
-
-      send({
-        type: 'language-progress',
-        progress: {
-          langCode,
-          langName: language.name,
-          status: 'done',
-          qaReport,
-        },
-      });
+      await applyAndCheck(langCode, translations);
 
       // Check if all languages are done
       pendingCount--;
@@ -274,17 +391,22 @@ figma.ui.onmessage = async (msg: UIMessage) => {
     // ── Translation error from UI ───────────
     case 'translation-error': {
       if (cancelled) { pendingCount--; return; }
-      const { langCode, error } = msg;
+      const { langCode, error, partial } = msg;
       const language = languageMap.get(langCode);
-      send({
-        type: 'language-progress',
-        progress: {
-          langCode,
-          langName: language?.name || langCode,
-          status: 'error',
-          detail: error,
-        },
-      });
+      if (partial && Object.keys(partial).length > 0) {
+        // Keep the memory hits and imports; QA flags the rest as missing
+        await applyAndCheck(langCode, partial, `Only partly translated: ${error}`);
+      } else {
+        send({
+          type: 'language-progress',
+          progress: {
+            langCode,
+            langName: language?.name || langCode,
+            status: 'error',
+            detail: error,
+          },
+        });
+      }
 
       pendingCount--;
       if (pendingCount <= 0) {
@@ -293,7 +415,7 @@ figma.ui.onmessage = async (msg: UIMessage) => {
       break;
     }
 
-    // ── Rewrite shorter (post-QA fix) ──────
+    // ── Rewrites (post-QA fix) ─────────────
     case 'apply-rewrites': {
       const { langCode, translations } = msg;
       const entry = cloneMap.get(langCode);
@@ -309,11 +431,48 @@ figma.ui.onmessage = async (msg: UIMessage) => {
       });
 
       const { fontErrors } = await applyTranslations(
-        entry.textNodeMap, translations, language, settings,
+        entry.textNodeMap, translations, language, runSettings, originalEntries,
       );
 
-      const qaReport = runQA(entry.textNodeMap, originalEntries, language, fontErrors);
+      Object.assign(entry.translations, translations);
+      entry.fontErrors = fontErrors;
+      const qaReport = runQA(
+        entry.textNodeMap, originalEntries, language, fontErrors, sourceFrames,
+        entry.translations, runSettings,
+      );
+
+      send({
+        type: 'language-progress',
+        progress: { langCode, langName: language.name, status: 'done', qaReport },
+      });
+      break;
+    }
+
+    // ── Fit layout without rewording ────────
+    case 'fit-layout': {
+      const { langCode, fit } = msg;
+      const entry = cloneMap.get(langCode);
+      const language = languageMap.get(langCode);
+      if (!entry || !language) {
+        send({ type: 'error', error: `No clone for ${langCode}.` });
+        return;
+      }
+
+      send({
+        type: 'language-progress',
+        progress: { langCode, langName: language.name, status: 'applying' },
+      });
+
+      // Only the strategies come from the current settings; QA keeps the run's rules
+      const results = await fitLayout(
+        entry.textNodeMap, originalEntries, language, entry.translations, { ...runSettings, ...fit },
+      );
+      const qaReport = runQA(
+        entry.textNodeMap, originalEntries, language, entry.fontErrors, sourceFrames,
+        entry.translations, runSettings,
+      );
 
+      send({ type: 'fit-results', langCode, results });
       send({
         type: 'language-progress',
         progress: { langCode, langName: language.name, status: 'done', qaReport },
@@ -334,6 +493,32 @@ figma.ui.onmessage = async (msg: UIMessage) => {
       break;
     }
 
+    // ── Document profile ────────────────────
+    case 'profile-publish': {
+      const profile = publishDocumentProfile(msg.settings);
+      send({ type: 'profile-data', profile });
+      figma.notify('Document profile saved to this file');
+      break;
+    }
+    case 'profile-remove': {
+      removeDocumentProfile();
+      send({ type: 'profile-data', profile: null });
+      figma.notify('Document profile removed');
+      break;
+    }
+
+    // ── Translation memory ──────────────────
+    case 'memory-list': {
+      send({ type: 'memory-data', entries: await listMemory() });
+      break;
+    }
+
+    case 'memory-clear': {
+      await clearMemory();
+      send({ type: 'memory-data', entries: [] });
+      break;
+    }
+
     // ── Resize UI ────────────────────────────
     case 'resize': {
       const w = Math.max(300, Math.min(800, msg.width));
@@ -0,0 +1,158 @@
+/**
+ * cost.ts – Token / cost estimation and usage accounting
+ *
+ * Before a run, the scanned strings are turned into a rough per-language
+ * estimate (about 4 characters per token, plus the fixed prompt text sent
+ * with every chunk). After a run, the `usage` field of each response is
+ * added up per language, per session and per calendar month.
+ *
+ * Prices are USD per million tokens at list price. Models missing from
+ * the table (local servers, custom Azure deployment names) are counted in
+ * tokens only.
+ *
+ * Runs in the UI iframe.
+ */
+import { MonthlyUsage, PluginSettings, TextEntry, TokenUsage } from './types';
+import { sourceText } from './translate';
+import { chunkEntries, entrySize } from './chunk';
+
+export interface ModelPrice {
+  /** USD per 1M input tokens */
+  input: number;
+  /** USD per 1M output tokens */
+  output: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+/** System prompt, rules and format notes sent with every chunk, in characters. */
+const PROMPT_OVERHEAD_CHARS = 1800;
+
+/** Translations tend to run longer than the (usually English) source. */
+const OUTPUT_EXPANSION = 1.3;
+
+/** JSON punctuation around each id in the response ("t12": "…",). */
+const OUTPUT_OVERHEAD_CHARS = 8;
+
+/**
+ * Price for a model. Dated snapshots ("gpt-4o-mini-2024-07-18") use the
+ * longest matching base name.
+ */
+export function modelPrice(model: string): ModelPrice | null {
+  let best = '';
+  for (const name of Object.keys(MODEL_PRICES)) {
+    if ((model === name || model.startsWith(`${name}-`)) && name.length > best.length) best = name;
+  }
+  return best ? MODEL_PRICES[best] : null;
+}
+
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / 4);
+}
+
+/** USD for a number of tokens on a model (0 when the model has no known price). */
+export function usageCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = modelPrice(model);
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1e6;
+}
+
+// ────────────────────────────────────────────
+// Pre-flight estimate
+// ────────────────────────────────────────────
+export interface LanguageEstimate {
+  langCode: string;
+  langName: string;
+  /** Strings that would be sent to the model */
+  strings: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** USD, or null when the model has no known price */
+  cost: number | null;
+}
+
+/**
+ * Estimate one language. `entries` should already exclude strings that
+ * will not reach the model (duplicates, imports). Translation-memory hits
+ * are only known to the controller, so the estimate is an upper bound.
+ */
+export function estimateLanguage(
+  langCode: string,
+  langName: string,
+  entries: TextEntry[],
+  settings: PluginSettings,
+): LanguageEstimate {
+  if (entries.length === 0) {
+    return { langCode, langName, strings: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+  }
+  const chunks = chunkEntries(entries, settings.chunkCharBudget).length;
+  let inputChars = chunks * PROMPT_OVERHEAD_CHARS;
+  let outputChars = 0;
+  for (const e of entries) {
+    inputChars += entrySize(e);
+    outputChars += sourceText(e).length * OUTPUT_EXPANSION + e.id.length + OUTPUT_OVERHEAD_CHARS;
+  }
+  const inputTokens = estimateTokens(inputChars);
+  const outputTokens = estimateTokens(outputChars);
+  return {
+    langCode,
+    langName,
+    strings: entries.length,
+    inputTokens,
+    outputTokens,
+    cost: modelPrice(settings.model) ? usageCost(settings.model, inputTokens, outputTokens) : null,
+  };
+}
+
+// ────────────────────────────────────────────
+// Usage accounting
+// ────────────────────────────────────────────
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+/** Add `extra` into `total` (mutates and returns `total`). */
+export function addUsage<T extends TokenUsage>(total: T, extra: TokenUsage): T {
+  total.inputTokens += extra.inputTokens;
+  total.outputTokens += extra.outputTokens;
+  total.cost += extra.cost;
+  return total;
+}
+
+/** Usage of one response, priced for the model that produced it. */
+export function responseUsage(model: string, usage?: { inputTokens: number; outputTokens: number }): TokenUsage {
+  if (!usage) return emptyUsage();
+  return { ...usage, cost: usageCost(model, usage.inputTokens, usage.outputTokens) };
+}
+
+export function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+/** The stored monthly usage, reset when a new month has started. */
+export function monthlyUsageNow(stored: MonthlyUsage): MonthlyUsage {
+  const month = currentMonth();
+  return stored.month === month ? { ...stored } : { month, ...emptyUsage() };
+}
+
+// ────────────────────────────────────────────
+// Formatting
+// ────────────────────────────────────────────
+export function formatTokens(n: number): string {
+  if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
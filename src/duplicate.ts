@@ -3,7 +3,9 @@
  *
  * Runs in the Figma controller (has access to figma.* API).
  */
-import { Language, PluginSettings, TextEntry } from './types';
+import { Language, PluginSettings, TextEntry, TextStyleRun } from './types';
+import { classifyCodeLike } from './classify';
+import { buildMarkup, parseMarkup } from './richtext';
 
 // ────────────────────────────────────────────
 // Scanning
@@ -56,23 +58,67 @@ function fontNameStr(node: TextNode): string {
   return `${fn.family}:${fn.style}`;
 }
 
+/** Style fields that survive translation as inline markup. */
+const STYLE_FIELDS: ('fontName' | 'fontSize' | 'fills' | 'textDecoration' | 'hyperlink')[] = [
+  'fontName', 'fontSize', 'fills', 'textDecoration', 'hyperlink',
+];
+
+/**
+ * Capture the styled ranges of a mixed-style text node as markup + style runs.
+ * Returns null for uniformly styled text.
+ */
+function captureStyledText(node: TextNode): { markup: string; styleRuns: TextStyleRun[] } | null {
+  let segments;
+  try {
+    segments = node.getStyledTextSegments(STYLE_FIELDS);
+  } catch (_e) {
+    return null;
+  }
+  if (segments.length < 2) return null;
+
+  const runs: TextStyleRun[] = segments.map(seg => ({
+    fontName: seg.fontName,
+    fontSize: seg.fontSize,
+    fills: seg.fills as Paint[],
+    textDecoration: seg.textDecoration,
+    hyperlink: seg.hyperlink,
+  }));
+  const keys = runs.map(r => JSON.stringify(r));
+  const built = buildMarkup(segments.map((seg, i) => ({ characters: seg.characters, styleKey: keys[i] })));
+  if (!built) return null;
+
+  return {
+    markup: built.markup,
+    styleRuns: built.styleKeys.map(key => runs[keys.indexOf(key)]),
+  };
+}
+
 /**
- * Scan a selection recursively and collect translatable TextEntry objects.
+ * Scan the selected nodes recursively and collect translatable TextEntry
+ * objects. IDs are unique across all roots, so several frames form one job.
+ * Code-like strings are kept in `entries` but marked `skipped` when
+ * `skipCodeLike` is on, so the UI can still offer an override.
  */
-export function scanTextNodes(root: SceneNode): {
+export function scanTextNodes(roots: SceneNode[], settings: PluginSettings): {
   entries: TextEntry[];
   totalTextNodes: number;
   skippedEmpty: number;
   skippedLocked: number;
+  skippedCodeLike: number;
 } {
   const entries: TextEntry[] = [];
   let totalTextNodes = 0;
   let skippedEmpty = 0;
   let skippedLocked = 0;
+  let skippedCodeLike = 0;
   let idx = 0;
+  const seen = new Set<string>();
 
-  function walk(node: SceneNode) {
+  function walk(node: SceneNode, frameId: string) {
     if (node.type === 'TEXT') {
+      // Overlapping selections must not produce the same entry twice
+      if (seen.has(node.id)) return;
+      seen.add(node.id);
       totalTextNodes++;
       const tn = node as TextNode;
 
@@ -80,6 +126,10 @@ export function scanTextNodes(root: SceneNode): {
       if (isInLockedChain(tn)) { skippedLocked++; return; }
 
       const fs = typeof tn.fontSize === 'number' ? tn.fontSize : 14;
+      const codeLike = classifyCodeLike(tn.characters);
+      const skipped = settings.skipCodeLike && codeLike !== null;
+      if (skipped) skippedCodeLike++;
+      const styled = captureStyledText(tn);
       entries.push({
         id: `t${idx++}`,
         nodeId: tn.id,
@@ -93,18 +143,22 @@ export function scanTextNodes(root: SceneNode): {
         isLabelLike: isLabelLike(tn),
         lineHeight: resolveLineHeight(tn),
         fontName: fontNameStr(tn),
+        codeLike,
+        skipped,
+        frameId,
+        ...(styled ? { markup: styled.markup, styleRuns: styled.styleRuns } : {}),
       });
     }
 
     if ('children' in node) {
       for (const child of (node as ChildrenMixin).children) {
-        walk(child as SceneNode);
+        walk(child as SceneNode, frameId);
       }
     }
   }
 
-  walk(root);
-  return { entries, totalTextNodes, skippedEmpty, skippedLocked };
+  for (const root of roots) walk(root, root.id);
+  return { entries, totalTextNodes, skippedEmpty, skippedLocked, skippedCodeLike };
 }
 
 // ────────────────────────────────────────────
@@ -129,59 +183,105 @@ function collectTextNodes(node: SceneNode): TextNode[] {
 // ────────────────────────────────────────────
 
 /**
- * Clone the original node, place it according to layout settings,
- * and return a mapping from stable text IDs → cloned TextNode references.
+ * Top-left position of the clone of frame `frameIndex` for language
+ * `langIndex`. Clones form a languages × frames matrix next to the
+ * selection's bounding box:
+ *
+ *  - row:    languages run left → right, frames stacked top → bottom
+ *  - column: languages run top → bottom, frames side by side
+ *  - wrap:   each language is a block of stacked frames, blocks wrap
+ *            into `wrapColumns` columns
+ *
+ * With a single frame this matches placing one clone per language.
  */
-export function duplicateAndPlace(
-  original: SceneNode,
+function matrixPosition(
+  originals: SceneNode[],
   langIndex: number,
-  language: Language,
+  frameIndex: number,
   settings: PluginSettings,
-  originalEntries: TextEntry[],
-): { clone: SceneNode; textNodeMap: Map<string, TextNode> } {
-  const clone = original.clone();
-  clone.name = `${original.name} – ${language.name} (${language.code})`;
-
-  // ── Position ──
+): { x: number; y: number } {
   const { layoutMode, gap, wrapColumns } = settings;
+  const left = Math.min(...originals.map(n => n.x));
+  const top = Math.min(...originals.map(n => n.y));
+  const right = Math.max(...originals.map(n => n.x + n.width));
+  const bottom = Math.max(...originals.map(n => n.y + n.height));
+  const maxWidth = Math.max(...originals.map(n => n.width));
+  const maxHeight = Math.max(...originals.map(n => n.height));
+
+  // Offset of this frame within its language block
+  let stackY = 0;
+  let stackX = 0;
+  for (let i = 0; i < frameIndex; i++) {
+    stackY += originals[i].height + gap;
+    stackX += originals[i].width + gap;
+  }
+  const stackHeight = originals.reduce((sum, n) => sum + n.height, 0) + gap * (originals.length - 1);
+
   switch (layoutMode) {
-    case 'row':
-      clone.x = original.x + (langIndex + 1) * (original.width + gap);
-      clone.y = original.y;
-      break;
     case 'column':
-      clone.x = original.x;
-      clone.y = original.y + (langIndex + 1) * (original.height + gap);
-      break;
+      return { x: left + stackX, y: bottom + gap + langIndex * (maxHeight + gap) };
     case 'wrap': {
       const col = langIndex % wrapColumns;
       const row = Math.floor(langIndex / wrapColumns);
-      clone.x = original.x + (col + 1) * (original.width + gap);
-      clone.y = original.y + row * (original.height + gap);
-      break;
+      return {
+        x: right + gap + col * (maxWidth + gap),
+        y: top + row * (stackHeight + gap) + stackY,
+      };
     }
+    case 'row':
+    default:
+      return { x: right + gap + langIndex * (maxWidth + gap), y: top + stackY };
   }
+}
 
-  // ── Build text-node map ──
-  // Both trees have identical structure, so DFS index alignment is stable.
+/**
+ * Clone every selected node for one language, place the clones in the
+ * languages × frames matrix, and return a mapping from stable text IDs →
+ * cloned TextNode references (across all clones).
+ */
+export function duplicateAndPlace(
+  originals: SceneNode[],
+  langIndex: number,
+  language: Language,
+  settings: PluginSettings,
+  originalEntries: TextEntry[],
+): { clones: SceneNode[]; textNodeMap: Map<string, TextNode> } {
+  const clones: SceneNode[] = [];
   const textNodeMap = new Map<string, TextNode>();
-  const origTexts = collectTextNodes(original);
-  const cloneTexts = collectTextNodes(clone);
+  const entryByNodeId = new Map<string, TextEntry>();
+  for (const e of originalEntries) entryByNodeId.set(e.nodeId, e);
+
+  originals.forEach((original, frameIndex) => {
+    const clone = original.clone();
+    clone.name = `${original.name} – ${language.name} (${language.code})`;
+
+    // ── Position ──
+    const { x, y } = matrixPosition(originals, langIndex, frameIndex, settings);
+    clone.x = x;
+    clone.y = y;
+
+    // ── Build text-node map ──
+    // Both trees have identical structure, so DFS index alignment is stable.
+    const origTexts = collectTextNodes(original);
+    const cloneTexts = collectTextNodes(clone);
+
+    for (let i = 0; i < origTexts.length && i < cloneTexts.length; i++) {
+      const entry = entryByNodeId.get(origTexts[i].id);
+      if (entry) {
+        textNodeMap.set(entry.id, cloneTexts[i]);
+      }
+    }
 
-  for (let i = 0; i < origTexts.length && i < cloneTexts.length; i++) {
-    const entry = originalEntries.find(e => e.nodeId === origTexts[i].id);
-    if (entry) {
-      textNodeMap.set(entry.id, cloneTexts[i]);
+    // ── Append to same parent ──
+    const parent = original.parent;
+    if (parent && 'appendChild' in parent) {
+      (parent as ChildrenMixin).appendChild(clone);
     }
-  }
 
-  // ── Append to same parent ──
-  const parent = original.parent;
-  if (parent && 'appendChild' in parent) {
-    (parent as ChildrenMixin).appendChild(clone);
-  }
+    clones.push(clone);
+  });
 
-  return { clone, textNodeMap };
+  return { clones, textNodeMap };
 }
 
 // ────────────────────────────────────────────
@@ -266,18 +366,57 @@ export async function applyFallbackFont(node: TextNode): Promise<boolean> {
 // Apply translations
 // ────────────────────────────────────────────
 
+/** Apply one style run to a character range; each property is best-effort. */
+async function applyStyleRun(node: TextNode, start: number, end: number, run: TextStyleRun) {
+  try {
+    await figma.loadFontAsync(run.fontName);
+    node.setRangeFontName(start, end, run.fontName);
+  } catch (_e) { /* keep whatever font is there */ }
+  try { node.setRangeFontSize(start, end, run.fontSize); } catch (_e) { /* non-critical */ }
+  try { node.setRangeFills(start, end, run.fills); } catch (_e) { /* non-critical */ }
+  try { node.setRangeTextDecoration(start, end, run.textDecoration); } catch (_e) { /* non-critical */ }
+  try { node.setRangeHyperlink(start, end, run.hyperlink); } catch (_e) { /* non-critical */ }
+}
+
+/**
+ * Set the characters of a text node. For mixed-style entries the
+ * translation carries inline tags: the base style is applied to the whole
+ * string, then each tagged range gets its captured style back.
+ */
+async function setTranslatedText(node: TextNode, translation: string, entry: TextEntry | undefined) {
+  if (!entry?.styleRuns) {
+    node.characters = translation;
+    return;
+  }
+
+  const { text, ranges } = parseMarkup(translation);
+  node.characters = text;
+  if (text.length === 0) return;
+
+  await applyStyleRun(node, 0, text.length, entry.styleRuns[0]);
+  for (const range of ranges) {
+    const run = entry.styleRuns[range.tag];
+    if (run && range.end > range.start) {
+      await applyStyleRun(node, range.start, range.end, run);
+    }
+  }
+}
+
 /**
  * Write translated strings into cloned text nodes.
- * Handles font loading, RTL direction, and alignment.
+ * Handles font loading, inline styles, RTL direction, and alignment.
  */
 export async function applyTranslations(
   textNodeMap: Map<string, TextNode>,
   translations: Record<string, string>,
   language: Language,
   settings: PluginSettings,
+  originalEntries: TextEntry[],
 ): Promise<{ applied: number; fontErrors: string[] }> {
   let applied = 0;
   const fontErrors: string[] = [];
+  const entryMap = new Map<string, TextEntry>();
+  for (const e of originalEntries) entryMap.set(e.id, e);
 
   for (const [id, translation] of Object.entries(translations)) {
     const node = textNodeMap.get(id);
@@ -290,8 +429,8 @@ export async function applyTranslations(
       if (!ok) { fontErrors.push(node.name); continue; }
     }
 
-    // Set text
-    node.characters = translation;
+    // Set text (and restore inline styles)
+    await setTranslatedText(node, translation, entryMap.get(id));
     applied++;
 
     // ── RTL handling ──
@@ -313,34 +452,3 @@ export async function applyTranslations(
 
   return { applied, fontErrors };
 }
-
-// ────────────────────────────────────────────
-// RTL mirror (auto-layout only)
-// ────────────────────────────────────────────
-
-/**
- * Reverse children order of horizontal auto-layout frames.
- * Returns true if mirroring was applied; false if not compatible.
- */
-export function mirrorAutoLayout(node: SceneNode): boolean {
-  if (
-    node.type !== 'FRAME' &&
-    node.type !== 'COMPONENT' &&
-    node.type !== 'INSTANCE'
-  ) {
-    return false;
-  }
-
-  const frame = node as FrameNode;
-  if (frame.layoutMode !== 'HORIZONTAL') return false;
-
-  try {
-    const kids = [...frame.children];
-    for (let i = kids.length - 1; i >= 0; i--) {
-      frame.appendChild(kids[i]);
-    }
-    return true;
-  } catch (_e) {
-    return false;
-  }
-}
@@ -0,0 +1,298 @@
+/**
+ * export.ts – Export translations to localisation file formats
+ *
+ * Runs in the UI iframe. Turns the translations of a run into files
+ * developers can drop into a codebase:
+ *
+ *   XLIFF 2.0 · flat JSON · nested JSON · CSV · Android strings.xml · iOS .strings
+ *
+ * Keys come from layer names (slugified, de-duplicated) or from the stable
+ * TextEntry IDs. Source text and QA status are written as notes wherever the
+ * format has room for them.
+ */
+import { TextEntry, QAReport, Severity, ExportFormat, ExportKeyMode } from './types';
+import { stripMarkup } from './richtext';
+
+export const EXPORT_FORMATS: Record<ExportFormat, string> = {
+  'xliff': 'XLIFF 2.0',
+  'json-flat': 'JSON (flat)',
+  'json-nested': 'JSON (nested)',
+  'csv': 'CSV',
+  'android': 'Android strings.xml',
+  'ios': 'iOS .strings',
+};
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mime: string;
+}
+
+export interface ExportLanguage {
+  code: string;
+  name: string;
+  /** Translations keyed by entry ID (may contain inline style tags) */
+  translations: Record<string, string>;
+  qaReport?: QAReport;
+}
+
+export interface ExportInput {
+  /** Source language code written to XLIFF headers */
+  sourceLang: string;
+  entries: TextEntry[];
+  languages: ExportLanguage[];
+  keyMode: ExportKeyMode;
+  /** Source frame names by node ID, used to prefix keys in multi-frame runs */
+  frameNames: Record<string, string>;
+}
+
+/** Per-entry QA state for one language. */
+interface EntryStatus {
+  severity: Severity;
+  messages: string[];
+}
+
+// ────────────────────────────────────────────
+// Keys
+// ────────────────────────────────────────────
+function slug(s: string): string {
+  return s
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Derive one unique key per entry. Layer-name keys are prefixed with the
+ * frame name when the run covers several frames; duplicates get _2, _3, …
+ */
+export function buildExportKeys(
+  entries: TextEntry[],
+  keyMode: ExportKeyMode,
+  frameNames: Record<string, string>,
+): Map<string, string> {
+  const keys = new Map<string, string>();
+  if (keyMode === 'id') {
+    for (const e of entries) keys.set(e.id, e.id);
+    return keys;
+  }
+
+  const multiFrame = new Set(entries.map(e => e.frameId)).size > 1;
+  const used = new Map<string, number>();
+  for (const e of entries) {
+    let base = slug(e.nodeName) || e.id;
+    if (multiFrame) base = `${slug(frameNames[e.frameId] || '') || 'frame'}.${base}`;
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+    keys.set(e.id, count === 1 ? base : `${base}_${count}`);
+  }
+  return keys;
+}
+
+// ────────────────────────────────────────────
+// QA status per entry
+// ────────────────────────────────────────────
+function entryStatuses(report: QAReport | undefined): Map<string, EntryStatus> {
+  const map = new Map<string, EntryStatus>();
+  if (!report) return map;
+  for (const issue of report.issues) {
+    if (!issue.entryId) continue;
+    const status = map.get(issue.entryId) || { severity: 'green' as Severity, messages: [] };
+    if (issue.severity === 'red' || (issue.severity === 'amber' && status.severity === 'green')) {
+      status.severity = issue.severity;
+    }
+    status.messages.push(issue.message);
+    map.set(issue.entryId, status);
+  }
+  return map;
+}
+
+function qaNote(status: EntryStatus | undefined, hasReport: boolean): string {
+  if (!hasReport) return 'not checked';
+  if (!status) return 'green';
+  return `${status.severity}: ${status.messages.join(', ')}`;
+}
+
+/** Single-line note for formats that only support comments. */
+function commentNote(entry: TextEntry, status: EntryStatus | undefined, hasReport: boolean): string {
+  return `Source: ${entry.characters.replace(/\s+/g, ' ')} | QA: ${qaNote(status, hasReport)}`;
+}
+
+// ────────────────────────────────────────────
+// Escaping
+// ────────────────────────────────────────────
+function xml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function csvCell(s: string): string {
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function androidString(s: string): string {
+  return xml(s)
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/&quot;/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/^([@?])/, '\\$1');
+}
+
+function iosString(s: string): string {
+  return s.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/** Android resource qualifier, e.g. pt-BR → pt-rBR. */
+function androidQualifier(code: string): string {
+  const [lang, region] = code.split('-');
+  return region ? `${lang}-r${region.toUpperCase()}` : lang;
+}
+
+// ────────────────────────────────────────────
+// Formats
+// ────────────────────────────────────────────
+interface Row {
+  entry: TextEntry;
+  key: string;
+}
+
+function toXliff(input: ExportInput, rows: Row[], lang: ExportLanguage): string {
+  const statuses = entryStatuses(lang.qaReport);
+  const units: string[] = [];
+  for (const { entry, key } of rows) {
+    const target = lang.translations[entry.id];
+    if (target === undefined) continue;
+    units.push([
+      `    <unit id="${xml(key)}">`,
+      '      <notes>',
+      `        <note category="layer">${xml(entry.nodeName)}</note>`,
+      `        <note category="qa">${xml(qaNote(statuses.get(entry.id), !!lang.qaReport))}</note>`,
+      '      </notes>',
+      '      <segment state="translated">',
+      `        <source>${xml(entry.characters)}</source>`,
+      `        <target>${xml(stripMarkup(target))}</target>`,
+      '      </segment>',
+      '    </unit>',
+    ].join('\n'));
+  }
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${xml(input.sourceLang)}" trgLang="${xml(lang.code)}">`,
+    '  <file id="polypaste">',
+    ...units,
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n');
+}
+
+function toJson(rows: Row[], lang: ExportLanguage, nested: boolean): string {
+  const out: Record<string, unknown> = {};
+  for (const { entry, key } of rows) {
+    const target = lang.translations[entry.id];
+    if (target === undefined) continue;
+    const text = stripMarkup(target);
+    if (!nested) {
+      out[key] = text;
+      continue;
+    }
+    // Split on dots; a key that is both a leaf and a branch keeps the leaf under "_"
+    const parts = key.split('.');
+    let node = out;
+    for (const part of parts.slice(0, -1)) {
+      const next = node[part];
+      if (typeof next === 'string') node[part] = { _: next };
+      if (typeof node[part] !== 'object') node[part] = {};
+      node = node[part] as Record<string, unknown>;
+    }
+    const leaf = parts[parts.length - 1];
+    if (typeof node[leaf] === 'object') (node[leaf] as Record<string, unknown>)._ = text;
+    else node[leaf] = text;
+  }
+  return JSON.stringify(out, null, 2) + '\n';
+}
+
+function toCsv(rows: Row[], languages: ExportLanguage[]): string {
+  const statuses = languages.map(l => entryStatuses(l.qaReport));
+  const header = ['key', 'id', 'layer', 'source'];
+  for (const l of languages) header.push(l.code, `${l.code} QA`);
+
+  const lines = [header.map(csvCell).join(',')];
+  for (const { entry, key } of rows) {
+    const cells = [key, entry.id, entry.nodeName, entry.characters];
+    languages.forEach((l, i) => {
+      const target = l.translations[entry.id];
+      cells.push(target === undefined ? '' : stripMarkup(target));
+      cells.push(target === undefined ? '' : qaNote(statuses[i].get(entry.id), !!l.qaReport));
+    });
+    lines.push(cells.map(csvCell).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function toAndroid(rows: Row[], lang: ExportLanguage): string {
+  const statuses = entryStatuses(lang.qaReport);
+  const lines = ['<?xml version="1.0" encoding="utf-8"?>', '<resources>'];
+  for (const { entry, key } of rows) {
+    const target = lang.translations[entry.id];
+    if (target === undefined) continue;
+    const note = commentNote(entry, statuses.get(entry.id), !!lang.qaReport);
+    // "--" is not allowed inside XML comments
+    lines.push(`    <!-- ${note.replace(/--/g, '- -')} -->`);
+    lines.push(`    <string name="${key.replace(/[^a-zA-Z0-9_]/g, '_')}">${androidString(stripMarkup(target))}</string>`);
+  }
+  lines.push('</resources>', '');
+  return lines.join('\n');
+}
+
+function toIos(rows: Row[], lang: ExportLanguage): string {
+  const statuses = entryStatuses(lang.qaReport);
+  const lines: string[] = [];
+  for (const { entry, key } of rows) {
+    const target = lang.translations[entry.id];
+    if (target === undefined) continue;
+    const note = commentNote(entry, statuses.get(entry.id), !!lang.qaReport);
+    lines.push(`/* ${note.replace(/\*\//g, '* /')} */`);
+    lines.push(`"${iosString(key)}" = "${iosString(stripMarkup(target))}";`);
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+// ────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────
+
+/**
+ * Build the export files for the chosen format. CSV is a single file with
+ * one column per language; every other format produces one file per language.
+ */
+export function exportTranslations(format: ExportFormat, input: ExportInput): ExportFile[] {
+  const keys = buildExportKeys(input.entries, input.keyMode, input.frameNames);
+  const rows: Row[] = input.entries.map(entry => ({ entry, key: keys.get(entry.id)! }));
+
+  if (format === 'csv') {
+    return [{ filename: 'translations.csv', content: toCsv(rows, input.languages), mime: 'text/csv' }];
+  }
+
+  return input.languages.map(lang => {
+    switch (format) {
+      case 'xliff':
+        return { filename: `${lang.code}.xlf`, content: toXliff(input, rows, lang), mime: 'application/xliff+xml' };
+      case 'json-flat':
+      case 'json-nested':
+        return { filename: `${lang.code}.json`, content: toJson(rows, lang, format === 'json-nested'), mime: 'application/json' };
+      case 'android':
+        return { filename: `values-${androidQualifier(lang.code)}-strings.xml`, content: toAndroid(rows, lang), mime: 'application/xml' };
+      case 'ios':
+      default:
+        return { filename: `${lang.code}.lproj-Localizable.strings`, content: toIos(rows, lang), mime: 'text/plain' };
+    }
+  });
+}
@@ -0,0 +1,286 @@
+/**
+ * fit.ts – Non-AI layout fitting for flagged clone nodes
+ *
+ * When rewording is not an option (legal copy, product names), a small
+ * typographic or container change often fixes an overflow. fitLayout()
+ * tries the enabled strategies, in settings order, on every text node
+ * with a layout issue:
+ *
+ *   font-size      → 1px smaller per step, down to fitMinFontSize
+ *   letter-spacing → 0.5% tighter per step, down to fitMinLetterSpacing
+ *   line-height    → 5% tighter per step, down to fitMinLineHeight
+ *   grow-container → a fixed text box gets auto height, then each fixed
+ *                    auto-layout ancestor on the overflowing axis hugs
+ *
+ * QA runs again on the node after every step; the first step that leaves
+ * it without layout issues wins. Growing the container may add lines, so
+ * a new-line warning still counts as fitted for that strategy. A strategy
+ * that runs out of steps is undone before the next one is tried, so the
+ * report names the single strategy that did the job.
+ *
+ * Runs in the Figma controller on CLONED nodes, never on the originals.
+ */
+import { FitResult, FitStrategy, Language, PluginSettings, QAIssue, TextEntry } from './types';
+import { checkParentOverflow, runQA } from './qa';
+import { loadFontsForNode } from './duplicate';
+
+/** Safety stop for one strategy on one node. */
+const MAX_STEPS = 40;
+
+/** Figma's AUTO line height is roughly this percentage of the font size. */
+const AUTO_LINE_HEIGHT = 120;
+
+interface SegmentStyle {
+  start: number;
+  end: number;
+  fontSize: number;
+  letterSpacing: LetterSpacing;
+  lineHeight: LineHeight;
+}
+
+/** Everything a strategy may change, so a failed attempt can be undone. */
+interface NodeSnapshot {
+  segments: SegmentStyle[];
+  autoResize: TextNode['textAutoResize'];
+  width: number;
+  height: number;
+  /** Frames switched to hug, with the sizing modes they had */
+  frames: { frame: FrameNode; primary: FrameNode['primaryAxisSizingMode']; counter: FrameNode['counterAxisSizingMode'] }[];
+}
+
+interface FitContext {
+  entries: TextEntry[];
+  language: Language;
+  translations: Record<string, string>;
+  settings: PluginSettings;
+}
+
+// ────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────
+
+/**
+ * Try the enabled strategies on each clone node with a layout issue.
+ * Nodes without layout issues are left alone and not reported.
+ */
+export async function fitLayout(
+  textNodeMap: Map<string, TextNode>,
+  originalEntries: TextEntry[],
+  language: Language,
+  translations: Record<string, string>,
+  settings: PluginSettings,
+): Promise<FitResult[]> {
+  const ctx: FitContext = { entries: originalEntries, language, translations, settings };
+  const results: FitResult[] = [];
+
+  for (const [id, node] of textNodeMap) {
+    if (!node.parent || layoutIssues(id, node, ctx).length === 0) continue;
+
+    const fontsLoaded = await loadFontsForNode(node);
+    const snapshot = takeSnapshot(node);
+    let fixedBy: FitStrategy | null = null;
+    let detail = '';
+
+    for (const strategy of settings.fitStrategies) {
+      // Typography can only change once the fonts are loaded
+      if (strategy !== 'grow-container' && !fontsLoaded) continue;
+
+      const actions: string[] = [];
+      for (let step = 0; step < MAX_STEPS; step++) {
+        let moved = false;
+        try {
+          moved = applyStep(strategy, node, settings, snapshot, actions);
+        } catch (_e) {
+          moved = false;
+        }
+        if (!moved) break;
+        if (passes(layoutIssues(id, node, ctx), strategy === 'grow-container')) {
+          fixedBy = strategy;
+          detail = describe(strategy, node, snapshot, actions);
+          break;
+        }
+      }
+      if (fixedBy) break;
+      restore(node, snapshot);
+    }
+
+    results.push({
+      entryId: id,
+      nodeId: node.id,
+      nodeName: node.name,
+      strategy: fixedBy,
+      detail: fixedBy ? detail : 'No strategy made it fit',
+    });
+  }
+  return results;
+}
+
+// ────────────────────────────────────────────
+// QA per node
+// ────────────────────────────────────────────
+
+/** Layout issues (overflow, new lines, broken container) of one node. */
+function layoutIssues(id: string, node: TextNode, ctx: FitContext): QAIssue[] {
+  const report = runQA(new Map([[id, node]]), ctx.entries, ctx.language, [], [], ctx.translations, ctx.settings);
+  return report.issues.filter(i => i.type === 'text-overflow' || i.type === 'container-overflow');
+}
+
+function passes(issues: QAIssue[], allowNewLines: boolean): boolean {
+  return issues.every(i => allowNewLines && i.type === 'text-overflow' && i.severity === 'amber');
+}
+
+// ────────────────────────────────────────────
+// Strategies
+// ────────────────────────────────────────────
+
+/** Apply one step of a strategy. Returns false when its limit is reached. */
+function applyStep(
+  strategy: FitStrategy,
+  node: TextNode,
+  settings: PluginSettings,
+  snapshot: NodeSnapshot,
+  actions: string[],
+): boolean {
+  switch (strategy) {
+    case 'font-size':
+      return stepFontSize(node, settings.fitMinFontSize);
+    case 'letter-spacing':
+      return stepLetterSpacing(node, settings.fitMinLetterSpacing);
+    case 'line-height':
+      return stepLineHeight(node, settings.fitMinLineHeight);
+    case 'grow-container':
+      return stepGrowContainer(node, snapshot, actions);
+  }
+}
+
+function stepFontSize(node: TextNode, min: number): boolean {
+  let changed = false;
+  for (const seg of node.getStyledTextSegments(['fontSize'])) {
+    const next = Math.max(min, seg.fontSize - 1);
+    if (next < seg.fontSize) {
+      node.setRangeFontSize(seg.start, seg.end, next);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+function stepLetterSpacing(node: TextNode, min: number): boolean {
+  let changed = false;
+  for (const seg of node.getStyledTextSegments(['letterSpacing', 'fontSize'])) {
+    const current = letterSpacingPercent(seg.letterSpacing, seg.fontSize);
+    const next = Math.max(min, Math.round((current - 0.5) * 10) / 10);
+    if (next < current - 0.01) {
+      node.setRangeLetterSpacing(seg.start, seg.end, { unit: 'PERCENT', value: next });
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+function stepLineHeight(node: TextNode, min: number): boolean {
+  let changed = false;
+  for (const seg of node.getStyledTextSegments(['lineHeight', 'fontSize'])) {
+    const current = lineHeightPercent(seg.lineHeight, seg.fontSize);
+    const next = Math.max(min, current - 5);
+    if (next < current - 0.01) {
+      node.setRangeLineHeight(seg.start, seg.end, { unit: 'PERCENT', value: next });
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Let the fixed text box grow in height first; after that, switch the
+ * fixed auto-layout ancestor that is overflowed to hug on that axis.
+ * Plain frames cannot hug, so the strategy stops there.
+ */
+function stepGrowContainer(node: TextNode, snapshot: NodeSnapshot, actions: string[]): boolean {
+  if (node.textAutoResize === 'NONE' || node.textAutoResize === 'TRUNCATE') {
+    node.textAutoResize = 'HEIGHT';
+    actions.push('text box → auto height');
+    return true;
+  }
+
+  const parent = checkParentOverflow(node);
+  const frame = parent.frame;
+  if (!parent.overflows || !frame || !parent.axis) return false;
+  if (!frame.layoutMode || frame.layoutMode === 'NONE') return false;
+
+  snapshot.frames.push({ frame, primary: frame.primaryAxisSizingMode, counter: frame.counterAxisSizingMode });
+  const onPrimary = (frame.layoutMode === 'HORIZONTAL') === (parent.axis === 'horizontal');
+  if (onPrimary) frame.primaryAxisSizingMode = 'AUTO';
+  else frame.counterAxisSizingMode = 'AUTO';
+  actions.push(`${frame.name} → hug ${parent.axis === 'horizontal' ? 'width' : 'height'}`);
+  return true;
+}
+
+function letterSpacingPercent(ls: LetterSpacing, fontSize: number): number {
+  return ls.unit === 'PERCENT' ? ls.value : (ls.value / fontSize) * 100;
+}
+
+function lineHeightPercent(lh: LineHeight, fontSize: number): number {
+  if (lh.unit === 'AUTO') return AUTO_LINE_HEIGHT;
+  return lh.unit === 'PERCENT' ? lh.value : (lh.value / fontSize) * 100;
+}
+
+// ────────────────────────────────────────────
+// Snapshot / restore / report
+// ────────────────────────────────────────────
+
+function takeSnapshot(node: TextNode): NodeSnapshot {
+  return {
+    segments: node.getStyledTextSegments(['fontSize', 'letterSpacing', 'lineHeight']).map(seg => ({
+      start: seg.start,
+      end: seg.end,
+      fontSize: seg.fontSize,
+      letterSpacing: seg.letterSpacing,
+      lineHeight: seg.lineHeight,
+    })),
+    autoResize: node.textAutoResize,
+    width: node.width,
+    height: node.height,
+    frames: [],
+  };
+}
+
+/** Undo every change a strategy made; each property is best-effort. */
+function restore(node: TextNode, snapshot: NodeSnapshot) {
+  for (const f of snapshot.frames.reverse()) {
+    try {
+      f.frame.primaryAxisSizingMode = f.primary;
+      f.frame.counterAxisSizingMode = f.counter;
+    } catch (_e) { /* keep the hug */ }
+  }
+  snapshot.frames = [];
+
+  try {
+    node.textAutoResize = snapshot.autoResize;
+    if (snapshot.autoResize === 'NONE' || snapshot.autoResize === 'TRUNCATE') {
+      node.resize(snapshot.width, snapshot.height);
+    }
+  } catch (_e) { /* non-critical */ }
+
+  for (const seg of snapshot.segments) {
+    try { node.setRangeFontSize(seg.start, seg.end, seg.fontSize); } catch (_e) { /* non-critical */ }
+    try { node.setRangeLetterSpacing(seg.start, seg.end, seg.letterSpacing); } catch (_e) { /* non-critical */ }
+    try { node.setRangeLineHeight(seg.start, seg.end, seg.lineHeight); } catch (_e) { /* non-critical */ }
+  }
+}
+
+/** Before → after of the first text segment, or the container changes. */
+function describe(strategy: FitStrategy, node: TextNode, snapshot: NodeSnapshot, actions: string[]): string {
+  const before = snapshot.segments[0];
+  const after = node.getStyledTextSegments(['fontSize', 'letterSpacing', 'lineHeight'])[0];
+  if (strategy === 'grow-container' || !before || !after) return actions.join(', ');
+
+  const round = (n: number) => Math.round(n * 10) / 10;
+  if (strategy === 'font-size') return `${before.fontSize} → ${after.fontSize}px`;
+  if (strategy === 'letter-spacing') {
+    return `${round(letterSpacingPercent(before.letterSpacing, before.fontSize))}% → ` +
+      `${round(letterSpacingPercent(after.letterSpacing, after.fontSize))}%`;
+  }
+  const from = before.lineHeight.unit === 'AUTO' ? 'auto' : `${round(lineHeightPercent(before.lineHeight, before.fontSize))}%`;
+  return `${from} → ${round(lineHeightPercent(after.lineHeight, after.fontSize))}%`;
+}
@@ -0,0 +1,76 @@
+/**
+ * glossary.ts – Forced terminology per language
+ *
+ * A glossary entry says "this source term must become exactly this in
+ * language X" (e.g. Workspace → Arbeitsbereich in German). The prompt
+ * builder only sends the terms that occur in the batch, and QA checks
+ * the applied text afterwards.
+ *
+ * Pure string logic — safe to import from both the controller and the UI.
+ */
+import { GlossaryEntry, TextEntry } from './types';
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Case-insensitive whole-word test (no lookbehind — the controller targets ES2017). */
+export function containsTerm(text: string, term: string): boolean {
+  const t = term.trim();
+  if (!t) return false;
+  return new RegExp(`(^|[^\\w])${escapeRegExp(t)}(?=[^\\w]|$)`, 'i').test(text);
+}
+
+/** Required translation of an entry for a language; pt-BR falls back to pt. */
+export function glossaryTarget(entry: GlossaryEntry, langCode: string): string | undefined {
+  return entry.translations[langCode] ?? entry.translations[langCode.split('-')[0]];
+}
+
+/** Terms (term → required translation) that occur in any of the entries. */
+export function glossaryForBatch(
+  entries: TextEntry[],
+  langCode: string,
+  glossary: GlossaryEntry[],
+): Record<string, string> {
+  const terms: Record<string, string> = {};
+  for (const g of glossary) {
+    const target = glossaryTarget(g, langCode);
+    if (!target) continue;
+    if (entries.some(e => containsTerm(e.characters, g.term))) terms[g.term] = target;
+  }
+  return terms;
+}
+
+/**
+ * Glossary terms that occur in the source but whose required translation
+ * is missing from the translated text.
+ */
+export function glossaryViolations(
+  source: string,
+  translation: string,
+  langCode: string,
+  glossary: GlossaryEntry[],
+): { term: string; target: string }[] {
+  const lower = translation.toLowerCase();
+  const violations: { term: string; target: string }[] = [];
+  for (const g of glossary) {
+    const target = glossaryTarget(g, langCode);
+    if (!target || !containsTerm(source, g.term)) continue;
+    if (!lower.includes(target.toLowerCase())) violations.push({ term: g.term, target });
+  }
+  return violations;
+}
+
+/**
+ * Merge imported entries into an existing glossary. Terms are matched
+ * case-insensitively; incoming translations overwrite existing ones.
+ */
+export function mergeGlossary(existing: GlossaryEntry[], incoming: GlossaryEntry[]): GlossaryEntry[] {
+  const merged = existing.map(g => ({ term: g.term, translations: { ...g.translations } }));
+  for (const g of incoming) {
+    const match = merged.find(m => m.term.toLowerCase() === g.term.toLowerCase());
+    if (match) Object.assign(match.translations, g.translations);
+    else merged.push({ term: g.term, translations: { ...g.translations } });
+  }
+  return merged;
+}
@@ -0,0 +1,422 @@
+/**
+ * import.ts – Import approved translations from localisation files
+ *
+ * Runs in the UI iframe. Parses XLIFF (1.2 and 2.0), flat or nested JSON,
+ * CSV and gettext PO files into translation units, then matches those
+ * units against the scanned TextEntry list:
+ *
+ *   1. by key  – layer-name keys (as produced by export.ts) or entry IDs
+ *   2. by source text – exact match on the layer's characters
+ *
+ * Matched strings skip the model; only the rest go to translateBatch.
+ *
+ * Also parses glossaries (CSV or TBX) into GlossaryEntry lists.
+ */
+import { TextEntry, GlossaryEntry } from './types';
+import { resolveLanguageCode } from './lang';
+import { buildExportKeys } from './export';
+
+export interface ImportedUnit {
+  /** Keys this unit can be matched by (resource key, entry ID, …) */
+  keys: string[];
+  /** Source text, when the format carries it */
+  source?: string;
+  target: string;
+}
+
+export interface ImportedLanguage {
+  /** Resolved language code, or null when the file does not say */
+  langCode: string | null;
+  units: ImportedUnit[];
+}
+
+export const IMPORT_ACCEPT = '.xlf,.xliff,.json,.csv,.po';
+
+// ────────────────────────────────────────────
+// Language detection
+// ────────────────────────────────────────────
+
+/** Guess the language from a file name such as pt-BR.json or messages.fr_FR.po. */
+function languageFromFilename(filename: string): string | null {
+  const base = filename.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+  const candidates = [base, ...base.split(/[.\s]/).reverse()];
+  const lastToken = base.split(/[.\s_-]/).pop();
+  if (lastToken) candidates.push(lastToken);
+  for (const c of candidates) {
+    const code = resolveLanguageCode(c.replace(/^values-/, ''));
+    if (code) return code;
+  }
+  return null;
+}
+
+// ────────────────────────────────────────────
+// XLIFF
+// ────────────────────────────────────────────
+function parseXliff(content: string): ImportedLanguage[] {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XML');
+  }
+  const root = doc.documentElement;
+  if (root.localName !== 'xliff') throw new Error('Not an XLIFF document');
+
+  const byLang = new Map<string | null, ImportedUnit[]>();
+  const add = (lang: string | null, unit: ImportedUnit) => {
+    if (!byLang.has(lang)) byLang.set(lang, []);
+    byLang.get(lang)!.push(unit);
+  };
+
+  // XLIFF 2.0: <xliff trgLang> › <unit id name> › <segment> › <source>/<target>
+  const trgLang = root.getAttribute('trgLang');
+  for (const unit of Array.from(doc.getElementsByTagName('unit'))) {
+    const source = Array.from(unit.getElementsByTagName('source')).map(n => n.textContent || '').join('');
+    const target = Array.from(unit.getElementsByTagName('target')).map(n => n.textContent || '').join('');
+    if (!target) continue;
+    const keys = [unit.getAttribute('id'), unit.getAttribute('name')].filter((k): k is string => !!k);
+    add(trgLang ? resolveLanguageCode(trgLang) : null, { keys, source, target });
+  }
+
+  // XLIFF 1.2: <file target-language> › <trans-unit id resname> › <source>/<target>
+  for (const file of Array.from(doc.getElementsByTagName('file'))) {
+    const fileLang = file.getAttribute('target-language');
+    for (const unit of Array.from(file.getElementsByTagName('trans-unit'))) {
+      const source = unit.getElementsByTagName('source')[0]?.textContent || '';
+      const target = unit.getElementsByTagName('target')[0]?.textContent || '';
+      if (!target) continue;
+      const keys = [unit.getAttribute('id'), unit.getAttribute('resname')].filter((k): k is string => !!k);
+      add(fileLang ? resolveLanguageCode(fileLang) : null, { keys, source, target });
+    }
+  }
+
+  return [...byLang].map(([langCode, units]) => ({ langCode, units }));
+}
+
+// ────────────────────────────────────────────
+// JSON
+// ────────────────────────────────────────────
+
+/** Flatten nested objects to dotted keys. A "_" leaf stands for its parent key. */
+function flattenJson(value: unknown, prefix: string, out: ImportedUnit[]) {
+  if (typeof value === 'string') {
+    if (value) out.push({ keys: [prefix], target: value });
+    return;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return;
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+    const key = k === '_' ? prefix : prefix ? `${prefix}.${k}` : k;
+    flattenJson(v, key, out);
+  }
+}
+
+function parseJson(content: string, filename: string): ImportedLanguage[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (_e) {
+    throw new Error('Invalid JSON');
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Expected a JSON object of keys and strings');
+  }
+
+  // { "fr": { … }, "de": { … } } — one object per language
+  const obj = data as Record<string, unknown>;
+  const topKeys = Object.keys(obj);
+  const perLanguage = topKeys.length > 0 && topKeys.every(k =>
+    resolveLanguageCode(k) && obj[k] && typeof obj[k] === 'object',
+  );
+  if (perLanguage && !languageFromFilename(filename)) {
+    return topKeys.map(k => {
+      const units: ImportedUnit[] = [];
+      flattenJson(obj[k], '', units);
+      return { langCode: resolveLanguageCode(k), units };
+    });
+  }
+
+  const units: ImportedUnit[] = [];
+  flattenJson(data, '', units);
+  return [{ langCode: languageFromFilename(filename), units }];
+}
+
+// ────────────────────────────────────────────
+// CSV
+// ────────────────────────────────────────────
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  // Spreadsheet apps in some locales export with semicolons
+  const firstLine = content.split('\n')[0];
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      rows.push(row); row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+/**
+ * CSV with a header row: key / id / source columns plus one column per
+ * language (the layout export.ts writes). "<lang> QA" columns are ignored.
+ */
+function parseCsv(content: string, filename: string): ImportedLanguage[] {
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) throw new Error('CSV has no data rows');
+  const header = rows[0].map(h => h.trim());
+  const lower = header.map(h => h.toLowerCase());
+
+  const keyCols = lower.map((h, i) => (h === 'key' || h === 'id' || h === 'name' ? i : -1)).filter(i => i >= 0);
+  const sourceCol = lower.indexOf('source');
+  const langCols: { i: number; code: string | null }[] = [];
+  header.forEach((h, i) => {
+    if (/\sqa$/i.test(h) || keyCols.includes(i) || i === sourceCol) return;
+    const code = resolveLanguageCode(h);
+    if (code) langCols.push({ i, code });
+  });
+
+  // Files without language headers: key,source,target
+  if (langCols.length === 0) {
+    const targetCol = lower.indexOf('target') >= 0 ? lower.indexOf('target') : lower.indexOf('translation');
+    if (targetCol < 0) throw new Error('No language or target column in CSV header');
+    langCols.push({ i: targetCol, code: languageFromFilename(filename) });
+  }
+
+  return langCols.map(({ i, code }) => ({
+    langCode: code,
+    units: rows.slice(1)
+      .filter(r => r[i])
+      .map(r => ({
+        keys: keyCols.map(k => r[k]).filter(Boolean),
+        source: sourceCol >= 0 ? r[sourceCol] : undefined,
+        target: r[i],
+      })),
+  }));
+}
+
+// ────────────────────────────────────────────
+// PO (gettext)
+// ────────────────────────────────────────────
+function unquotePo(s: string): string {
+  return s
+    .replace(/^"|"$/g, '')
+    .replace(/\\(["\\nt])/g, (_m, c: string) => (c === 'n' ? '\n' : c === 't' ? '\t' : c));
+}
+
+function parsePo(content: string, filename: string): ImportedLanguage[] {
+  const units: ImportedUnit[] = [];
+  let langCode: string | null = null;
+
+  // Blocks are separated by blank lines
+  for (const block of content.replace(/\r\n/g, '\n').split(/\n\s*\n/)) {
+    const fields: Record<string, string> = {};
+    let current = '';
+    let fuzzy = false;
+    for (const line of block.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('#,') && trimmed.includes('fuzzy')) fuzzy = true;
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      const m = trimmed.match(/^(msgctxt|msgid|msgid_plural|msgstr(?:\[0\])?|msgstr\[\d+\])\s+(".*")$/);
+      if (m) {
+        current = m[1] === 'msgstr[0]' ? 'msgstr' : m[1];
+        fields[current] = unquotePo(m[2]);
+      } else if (trimmed.startsWith('"') && current) {
+        fields[current] += unquotePo(trimmed);
+      }
+    }
+
+    if (fields.msgid === '') {
+      // Header entry
+      const lang = (fields.msgstr || '').match(/^Language:\s*(\S+)/m);
+      if (lang) langCode = resolveLanguageCode(lang[1]);
+      continue;
+    }
+    // Fuzzy entries are unreviewed — never treat them as approved
+    if (fuzzy || !fields.msgid || !fields.msgstr) continue;
+    units.push({
+      keys: fields.msgctxt ? [fields.msgctxt] : [],
+      source: fields.msgid,
+      target: fields.msgstr,
+    });
+  }
+
+  return [{ langCode: langCode || languageFromFilename(filename), units }];
+}
+
+// ────────────────────────────────────────────
+// Glossary files (CSV / TBX)
+// ────────────────────────────────────────────
+
+export const GLOSSARY_ACCEPT = '.csv,.tbx,.xml';
+
+/** Does a language tag denote the source language (ignoring region)? */
+function isSourceLanguage(tag: string, sourceLang: string): boolean {
+  const base = (s: string) => s.trim().toLowerCase().replace(/_/g, '-').split('-')[0];
+  return base(tag) === base(sourceLang);
+}
+
+/**
+ * Glossary CSV: a term column ("term", "source", or the source language
+ * code; otherwise the first column) plus one column per target language.
+ */
+function parseGlossaryCsv(content: string, sourceLang: string): GlossaryEntry[] {
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) throw new Error('CSV has no data rows');
+  const header = rows[0].map(h => h.trim());
+
+  let termCol = header.findIndex(h => /^(term|source)$/i.test(h));
+  if (termCol < 0) termCol = header.findIndex(h => isSourceLanguage(h, sourceLang));
+  if (termCol < 0) termCol = 0;
+
+  const langCols: { i: number; code: string }[] = [];
+  header.forEach((h, i) => {
+    if (i === termCol) return;
+    const code = resolveLanguageCode(h);
+    if (code) langCols.push({ i, code });
+  });
+  if (langCols.length === 0) throw new Error('No language columns in CSV header');
+
+  const entries: GlossaryEntry[] = [];
+  for (const row of rows.slice(1)) {
+    const term = (row[termCol] || '').trim();
+    if (!term) continue;
+    const translations: Record<string, string> = {};
+    for (const { i, code } of langCols) {
+      const target = (row[i] || '').trim();
+      if (target) translations[code] = target;
+    }
+    if (Object.keys(translations).length > 0) entries.push({ term, translations });
+  }
+  return entries;
+}
+
+/** TBX (v2 termEntry or v3 conceptEntry) › langSet[xml:lang] › term. */
+function parseTbx(content: string, sourceLang: string): GlossaryEntry[] {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid XML');
+
+  const concepts = [
+    ...Array.from(doc.getElementsByTagName('termEntry')),
+    ...Array.from(doc.getElementsByTagName('conceptEntry')),
+  ];
+  if (concepts.length === 0) throw new Error('No term entries found in TBX');
+
+  const entries: GlossaryEntry[] = [];
+  for (const concept of concepts) {
+    const sets = Array.from(concept.getElementsByTagName('langSet')).map(ls => ({
+      lang: ls.getAttribute('xml:lang') || ls.getAttribute('lang') || '',
+      term: (ls.getElementsByTagName('term')[0]?.textContent || '').trim(),
+    })).filter(s => s.lang && s.term);
+    if (sets.length < 2) continue;
+
+    const source = sets.find(s => isSourceLanguage(s.lang, sourceLang)) || sets[0];
+    const translations: Record<string, string> = {};
+    for (const s of sets) {
+      if (s === source) continue;
+      const code = resolveLanguageCode(s.lang);
+      if (code) translations[code] = s.term;
+    }
+    if (Object.keys(translations).length > 0) entries.push({ term: source.term, translations });
+  }
+  return entries;
+}
+
+/** Parse a glossary file. Throws with a readable message when nothing usable is found. */
+export function parseGlossaryFile(filename: string, content: string, sourceLang: string): GlossaryEntry[] {
+  const ext = (filename.match(/\.([^.]+)$/)?.[1] || '').toLowerCase();
+  let entries: GlossaryEntry[];
+  if (ext === 'csv') entries = parseGlossaryCsv(content, sourceLang);
+  else if (ext === 'tbx' || ext === 'xml') entries = parseTbx(content, sourceLang);
+  else throw new Error('Unsupported glossary file (use CSV or TBX)');
+  if (entries.length === 0) throw new Error('No glossary terms found');
+  return entries;
+}
+
+// ────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────
+
+/**
+ * Parse a localisation file. Returns one block per language it contains.
+ * Throws with a readable message when the file cannot be understood.
+ */
+export function parseLocalisationFile(filename: string, content: string): ImportedLanguage[] {
+  const ext = (filename.match(/\.([^.]+)$/)?.[1] || '').toLowerCase();
+  let result: ImportedLanguage[];
+  switch (ext) {
+    case 'xlf':
+    case 'xliff':
+      result = parseXliff(content);
+      if (result.some(r => !r.langCode)) {
+        const fallback = languageFromFilename(filename);
+        for (const r of result) r.langCode = r.langCode || fallback;
+      }
+      break;
+    case 'json':
+      result = parseJson(content, filename);
+      break;
+    case 'csv':
+      result = parseCsv(content, filename);
+      break;
+    case 'po':
+      result = parsePo(content, filename);
+      break;
+    default:
+      throw new Error('Unsupported file type (use XLIFF, JSON, CSV or PO)');
+  }
+  result = result.filter(r => r.units.length > 0);
+  if (result.length === 0) throw new Error('No translations found');
+  return result;
+}
+
+/**
+ * Match imported units against the scanned entries.
+ * Key matches win over source-text matches; a source match fills every
+ * entry with that exact text. Returns translations keyed by entry ID.
+ */
+export function matchImported(
+  entries: TextEntry[],
+  units: ImportedUnit[],
+  frameNames: Record<string, string>,
+): Record<string, string> {
+  const byKey = new Map<string, string>();
+  for (const e of entries) byKey.set(e.id, e.id);
+  for (const [id, key] of buildExportKeys(entries, 'layer', frameNames)) {
+    if (!byKey.has(key)) byKey.set(key, id);
+  }
+
+  const bySource = new Map<string, string[]>();
+  for (const e of entries) {
+    const ids = bySource.get(e.characters) || [];
+    ids.push(e.id);
+    bySource.set(e.characters, ids);
+  }
+
+  const fromSource: Record<string, string> = {};
+  const fromKey: Record<string, string> = {};
+  for (const unit of units) {
+    const keyed = unit.keys.map(k => byKey.get(k)).find(Boolean);
+    if (keyed) {
+      fromKey[keyed] = unit.target;
+    } else if (unit.source !== undefined) {
+      for (const id of bySource.get(unit.source) || []) fromSource[id] = unit.target;
+    }
+  }
+  return { ...fromSource, ...fromKey };
+}
@@ -68,9 +68,45 @@ export const LANGUAGES: Language[] = [
   { code: 'af',    name: 'Afrikaans',              nativeName: 'Afrikaans',          isRTL: false },
 ];
 
-/** Look up a Language object by ISO code. */
+/**
+ * Virtual pseudo-locales for stress-testing a layout before paying for real
+ * translations. Codes follow the reserved qps-* range used by Windows.
+ */
+export const PSEUDO_LANGUAGES: Language[] = [
+  { code: 'qps-ploc',  name: 'Pseudo (accented)',      nativeName: 'Þšéûðő',             isRTL: false, pseudo: 'accented' },
+  { code: 'qps-plocm', name: 'Pseudo (RTL)',           nativeName: 'ןעהפדמ',             isRTL: true,  pseudo: 'rtl' },
+  { code: 'qps-ploca', name: 'Pseudo (CJK width)',     nativeName: 'Ｐｓｅｕｄｏ',       isRTL: false, pseudo: 'cjk' },
+];
+
+/** Look up a Language object by ISO code (pseudo-locales included). */
 export function getLanguageByCode(code: string): Language | undefined {
-  return LANGUAGES.find(l => l.code === code);
+  return LANGUAGES.find(l => l.code === code) || PSEUDO_LANGUAGES.find(l => l.code === code);
+}
+
+export function isPseudoLanguage(code: string): boolean {
+  return PSEUDO_LANGUAGES.some(l => l.code === code);
+}
+
+/**
+ * Map a locale tag from a resource file (pt_BR, pt-br, zh-Hans-CN, es-419)
+ * to one of our language codes. Falls back to the base language when the
+ * exact variant is not in the list. Returns null when nothing matches.
+ */
+export function resolveLanguageCode(raw: string): string | null {
+  const tag = raw.trim().replace(/_/g, '-').replace(/-r([A-Z]{2})$/i, '-$1').toLowerCase();
+  if (!tag) return null;
+  const exact = LANGUAGES.find(l => l.code.toLowerCase() === tag);
+  if (exact) return exact.code;
+
+  const [base, ...rest] = tag.split('-');
+  if (base === 'zh') {
+    if (rest.some(p => p === 'hant' || p === 'tw' || p === 'hk' || p === 'mo')) return 'zh-TW';
+    return 'zh-CN';
+  }
+  if (base === 'nb' || base === 'nn') return 'no';
+  if (base === 'iw') return 'he';
+  if (base === 'fil') return 'tl';
+  return LANGUAGES.find(l => l.code.toLowerCase() === base)?.code ?? null;
 }
 
 // ── Presets ──
@@ -83,5 +119,6 @@ export const PRESETS: Record<LanguagePreset, string[]> = {
   ],
   rtl: ['ar', 'he', 'fa', 'ur'],
   all: LANGUAGES.filter(l => l.code !== 'en').map(l => l.code),
+  pseudo: PSEUDO_LANGUAGES.map(l => l.code),
 };
 
@@ -0,0 +1,124 @@
+/**
+ * memory.ts – Persistent translation memory
+ *
+ * Runs in the Figma controller (figma.clientStorage is not available in the
+ * UI iframe). Entries are keyed by source text, language code and the rule
+ * fields from translationRules(), including the glossary terms that occur
+ * in the string, so a cached string is only reused when it would have been
+ * requested under identical rules.
+ */
+import { MemoryEntry, PluginSettings, TextEntry } from './types';
+import { translationRules, sourceText } from './translate';
+
+const STORAGE_KEY = 'polypaste-memory';
+
+/** Least recently used entries are evicted beyond this size to stay within clientStorage limits. */
+const MAX_ENTRIES = 5000;
+
+/** In-memory copy of the store, loaded lazily on first access. */
+let store: Record<string, MemoryEntry> | null = null;
+
+// ────────────────────────────────────────────
+// Keys
+// ────────────────────────────────────────────
+export function rulesKey(settings: PluginSettings, langCode: string, entry: TextEntry): string {
+  return JSON.stringify(translationRules(settings, langCode, [entry]));
+}
+
+function memoryKey(source: string, langCode: string, rules: string): string {
+  return `${langCode}\u0000${rules}\u0000${source}`;
+}
+
+// ────────────────────────────────────────────
+// Storage
+// ────────────────────────────────────────────
+async function loadStore(): Promise<Record<string, MemoryEntry>> {
+  if (store) return store;
+  try {
+    const stored = await figma.clientStorage.getAsync(STORAGE_KEY);
+    store = stored && typeof stored === 'object' ? stored : {};
+  } catch (_e) {
+    console.error('[PolyPaste] loadMemory failed:', _e);
+    store = {};
+  }
+  return store!;
+}
+
+async function persistStore(data: Record<string, MemoryEntry>) {
+  const keys = Object.keys(data);
+  if (keys.length > MAX_ENTRIES) {
+    keys.sort((a, b) => data[a].updatedAt - data[b].updatedAt);
+    for (const key of keys.slice(0, keys.length - MAX_ENTRIES)) delete data[key];
+  }
+  try {
+    await figma.clientStorage.setAsync(STORAGE_KEY, data);
+  } catch (_e) {
+    console.error('[PolyPaste] saveMemory failed:', _e);
+  }
+}
+
+// ────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────
+
+/**
+ * Return cached translations for the given entries, keyed by entry ID.
+ * Hits are marked as used, so eviction drops the least recently used.
+ */
+export async function lookupMemory(
+  entries: TextEntry[],
+  langCode: string,
+  settings: PluginSettings,
+): Promise<Record<string, string>> {
+  const data = await loadStore();
+  const now = Date.now();
+  const hits: Record<string, string> = {};
+  for (const entry of entries) {
+    const hit = data[memoryKey(sourceText(entry), langCode, rulesKey(settings, langCode, entry))];
+    if (!hit) continue;
+    hits[entry.id] = hit.translation;
+    hit.updatedAt = now;
+  }
+  if (Object.keys(hits).length > 0) await persistStore(data);
+  return hits;
+}
+
+/** Store (or refresh) the translations produced for one language. */
+export async function rememberTranslations(
+  entries: TextEntry[],
+  langCode: string,
+  settings: PluginSettings,
+  translations: Record<string, string>,
+): Promise<void> {
+  const data = await loadStore();
+  const now = Date.now();
+  for (const entry of entries) {
+    const translation = translations[entry.id];
+    if (typeof translation !== 'string') continue;
+    const source = sourceText(entry);
+    const rules = rulesKey(settings, langCode, entry);
+    data[memoryKey(source, langCode, rules)] = {
+      source,
+      langCode,
+      translation,
+      rulesKey: rules,
+      updatedAt: now,
+    };
+  }
+  await persistStore(data);
+}
+
+/** All entries, most recently used first. */
+export async function listMemory(): Promise<MemoryEntry[]> {
+  const data = await loadStore();
+  return Object.values(data).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function clearMemory(): Promise<void> {
+  store = {};
+  try {
+    await figma.clientStorage.deleteAsync(STORAGE_KEY);
+  } catch (_e) {
+    console.error('[PolyPaste] clearMemory failed:', _e);
+  }
+}
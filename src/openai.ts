@@ -1,21 +1,34 @@
 /**
- * openai.ts – Thin wrapper around OpenAI Chat Completions API
+ * openai.ts – Thin wrapper around the Chat Completions API
  *
  * Runs inside the UI iframe (which has fetch access).
  * The controller sandbox cannot call external URLs.
  *
- * We use /v1/chat/completions with response_format: json_object
- * to guarantee parseable JSON output.
+ * We use /chat/completions with response_format: json_schema (structured
+ * outputs) when the caller supplies a schema, else json_object, to get
+ * parseable JSON output. Where the request goes (OpenAI, an
+ * OpenAI-compatible server, Azure) is decided by provider.ts.
  */
+import { PluginSettings } from './types';
+import { ProviderConnection, connectionFor } from './provider';
+
+/** A json_schema response format (sent with strict: true). */
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
 
 export interface OpenAIRequestOptions {
-  apiKey: string;
+  /** Endpoint + auth headers from the active provider. */
+  connection: ProviderConnection;
   model: string;
   systemPrompt: string;
   userPrompt: string;
   temperature?: number;
   /** When true (default), sends response_format: json_object. Set false for non-JSON calls. */
   jsonMode?: boolean;
+  /** Structured-output schema; replaces json_object unless the endpoint has rejected schemas before. */
+  jsonSchema?: JsonSchemaFormat;
   /** AbortSignal for cancellation support. */
   signal?: AbortSignal;
 }
@@ -25,14 +38,59 @@ export interface OpenAIResponse {
   data?: Record<string, unknown>;
   error?: string;
   status?: number;
+  /** Token counts from the response's `usage` field, when the provider reports them */
+  usage?: { inputTokens: number; outputTokens: number };
+  /**
+   * How long the provider asks callers to hold off, in ms: set on 429s and
+   * when the x-ratelimit-remaining-* headers say the quota is used up.
+   */
+  retryAfterMs?: number;
+  /** The request was aborted after REQUEST_TIMEOUT_MS without a response */
+  timedOut?: boolean;
+  /** The model answered, but not with parseable JSON (or not at all) */
+  invalidJson?: boolean;
+}
+
+/** Local models on modest hardware can take a while for a full chunk. */
+const REQUEST_TIMEOUT_MS = 120000;
+
+/** Endpoint + model pairs that rejected json_schema this session ("url|model"). */
+const schemaUnsupported = new Set<string>();
+
+/** A 400/422 whose message points at the response format. */
+function isSchemaRejection(status: number, text: string): boolean {
+  return (status === 400 || status === 422) && /response_format|json_schema|structured/i.test(text);
+}
+
+/** "https://host:port" of a URL, for error messages (the URL itself when it does not parse). */
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch (_e) {
+    return url;
+  }
 }
 
 /**
- * Call OpenAI and return parsed JSON.
- * Never logs or exposes the API key beyond the Authorization header.
+ * Call the chat-completions endpoint and return parsed JSON.
+ * Never logs or exposes the API key beyond the auth header.
  */
 export async function callOpenAI(opts: OpenAIRequestOptions): Promise<OpenAIResponse> {
-  const { apiKey, model, systemPrompt, userPrompt, temperature = 0.2, jsonMode = true, signal } = opts;
+  const { connection, model, systemPrompt, userPrompt, temperature = 0.2, jsonMode = true, signal } = opts;
+  const label = connection.label;
+  const schemaKey = `${connection.url}|${model}`;
+  const jsonSchema = jsonMode && opts.jsonSchema && !schemaUnsupported.has(schemaKey) ? opts.jsonSchema : undefined;
+
+  // Our own controller so a hung request can be told apart from a user cancel
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, REQUEST_TIMEOUT_MS);
+  const cancel = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', cancel, { once: true });
 
   try {
     const body: Record<string, unknown> = {
@@ -45,54 +103,131 @@ export async function callOpenAI(opts: OpenAIRequestOptions): Promise<OpenAIResp
     };
 
     // Only request structured JSON output when caller needs it
-    if (jsonMode) {
+    if (jsonSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: jsonSchema.name, strict: true, schema: jsonSchema.schema },
+      };
+    } else if (jsonMode) {
       body.response_format = { type: 'json_object' };
     }
 
-    const res = await fetch('https://api.openai.com/v1/chat/completions', {
+    const res = await fetch(connection.url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
+        ...connection.headers,
       },
       body: JSON.stringify(body),
-      signal,
+      signal: controller.signal,
     });
 
+    const retryAfterMs = rateLimitDelay(res.headers, res.status === 429);
+
     if (!res.ok) {
       const text = await res.text().catch((_e: unknown) => '');
+      // Model or server without structured outputs: remember, then retry with json_object
+      if (jsonSchema && isSchemaRejection(res.status, text)) {
+        schemaUnsupported.add(schemaKey);
+        return callOpenAI({ ...opts, jsonSchema: undefined });
+      }
       if (res.status === 401) return { ok: false, error: 'Invalid API key (401).', status: 401 };
-      if (res.status === 429) return { ok: false, error: 'Rate limited (429). Wait and retry.', status: 429 };
-      return { ok: false, error: `OpenAI ${res.status}: ${text.slice(0, 200)}`, status: res.status };
+      if (res.status === 429) return { ok: false, error: 'Rate limited (429). Wait and retry.', status: 429, retryAfterMs };
+      return { ok: false, error: `${label} ${res.status}: ${text.slice(0, 200)}`, status: res.status, retryAfterMs };
     }
 
     const json = await res.json();
+    const usage = json.usage
+      ? { inputTokens: Number(json.usage.prompt_tokens) || 0, outputTokens: Number(json.usage.completion_tokens) || 0 }
+      : undefined;
     const content: string | undefined = json.choices?.[0]?.message?.content;
-    if (!content) return { ok: false, error: 'Empty response from OpenAI.' };
+    if (!content) return { ok: false, error: `Empty response from ${label}.`, usage, retryAfterMs, invalidJson: true };
 
     // In non-JSON mode, return raw content string under a "text" key
     if (!jsonMode) {
-      return { ok: true, data: { text: content } };
+      return { ok: true, data: { text: content }, usage, retryAfterMs };
     }
 
-    const parsed = JSON.parse(content);
-    return { ok: true, data: parsed };
+    try {
+      return { ok: true, data: JSON.parse(content), usage, retryAfterMs };
+    } catch (_e) {
+      // Truncated or malformed JSON still cost tokens
+      return { ok: false, error: `Failed to parse JSON from ${label} response.`, usage, retryAfterMs, invalidJson: true };
+    }
   } catch (e: unknown) {
+    if (timedOut) {
+      return { ok: false, error: `${label} did not respond within ${REQUEST_TIMEOUT_MS / 1000}s.`, timedOut: true };
+    }
     if (e instanceof SyntaxError) {
-      return { ok: false, error: 'Failed to parse JSON from OpenAI response.' };
+      return { ok: false, error: `Failed to parse JSON from ${label} response.`, invalidJson: true };
+    }
+    // fetch rejects with a TypeError when the host is unreachable or the manifest blocks it
+    if (e instanceof TypeError && !signal?.aborted) {
+      return { ok: false, error: `Could not reach ${originOf(connection.url)}. Check that the server is running and that manifest.json's networkAccess.allowedDomains includes it.` };
     }
     const msg = e instanceof Error ? e.message : 'Network error.';
     return { ok: false, error: msg };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+// ────────────────────────────────────────────
+// Rate-limit headers
+// ────────────────────────────────────────────
+
+/** Parse an OpenAI reset duration such as "20ms", "1.5s" or "6m0s" into ms. */
+function parseResetDuration(value: string): number | undefined {
+  const re = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let found = false;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(value)) !== null) {
+    const n = parseFloat(m[1]);
+    total += m[2] === 'ms' ? n : m[2] === 's' ? n * 1000 : m[2] === 'm' ? n * 60000 : n * 3600000;
+    found = true;
+  }
+  return found ? Math.ceil(total) : undefined;
+}
+
+/**
+ * How long to wait before the next request. `limited` is true for a 429.
+ * Prefers retry-after-ms, then Retry-After (seconds or HTTP date), then
+ * the x-ratelimit-reset-* header of whichever quota is exhausted.
+ */
+function rateLimitDelay(headers: Headers, limited: boolean): number | undefined {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (ms > 0) return ms;
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  let delay: number | undefined;
+  for (const quota of ['requests', 'tokens']) {
+    const remaining = headers.get(`x-ratelimit-remaining-${quota}`);
+    const reset = headers.get(`x-ratelimit-reset-${quota}`);
+    if (!reset || (!limited && remaining !== '0')) continue;
+    const wait = parseResetDuration(reset);
+    if (wait !== undefined) delay = Math.max(delay || 0, wait);
   }
+  return delay;
 }
 
 /**
- * Quick key validation – makes a trivial request to confirm the key works.
+ * Quick connection check – makes a trivial request to confirm the
+ * provider settings (endpoint, key, model) work. Bypasses the request
+ * scheduler so a rate limit is reported right away instead of waited out.
  */
-export async function testApiKey(apiKey: string, model: string): Promise<OpenAIResponse> {
+export async function testConnection(settings: PluginSettings): Promise<OpenAIResponse> {
   return callOpenAI({
-    apiKey,
-    model,
+    connection: connectionFor(settings),
+    model: settings.model,
     systemPrompt: 'Reply with the single word OK.',
     userPrompt: 'Ping',
     temperature: 0,
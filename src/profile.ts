@@ -0,0 +1,129 @@
+/**
+ * profile.ts – Team-shared document profile
+ *
+ * Personal settings live in figma.clientStorage and differ per machine.
+ * The document profile stores the translation rules a team agrees on —
+ * glossary, preserve terms, tone/formality (global and per language) and
+ * custom instructions — in the Figma file itself via setSharedPluginData,
+ * so they travel with the file and override everyone's personal defaults.
+ *
+ * Only the fields listed in DocumentProfile are ever written: provider
+ * credentials, endpoints and models can never end up in the document.
+ *
+ * load/save/remove run in the controller; applyDocumentProfile() is pure
+ * and also used by the UI.
+ */
+import { DocumentProfile, GlossaryEntry, LanguageStyle, PluginSettings } from './types';
+
+const NAMESPACE = 'polypaste';
+const KEY = 'profile';
+
+const TONES: PluginSettings['tone'][] = ['neutral', 'friendly', 'formal'];
+const FORMALITIES: PluginSettings['formality'][] = ['auto', 'formal', 'informal'];
+
+// ────────────────────────────────────────────
+// Validation
+// ────────────────────────────────────────────
+function cleanStyle(raw: unknown): LanguageStyle {
+  const style: LanguageStyle = {};
+  if (!raw || typeof raw !== 'object') return style;
+  const r = raw as Record<string, unknown>;
+  if (TONES.includes(r.tone as PluginSettings['tone'])) style.tone = r.tone as PluginSettings['tone'];
+  if (FORMALITIES.includes(r.formality as PluginSettings['formality'])) {
+    style.formality = r.formality as PluginSettings['formality'];
+  }
+  return style;
+}
+
+function cleanGlossary(raw: unknown): GlossaryEntry[] {
+  if (!Array.isArray(raw)) return [];
+  const entries: GlossaryEntry[] = [];
+  for (const g of raw) {
+    if (!g || typeof g.term !== 'string' || !g.translations || typeof g.translations !== 'object') continue;
+    const translations: Record<string, string> = {};
+    for (const [code, target] of Object.entries(g.translations)) {
+      if (typeof target === 'string' && target) translations[code] = target;
+    }
+    entries.push({ term: g.term, translations });
+  }
+  return entries;
+}
+
+/**
+ * Build a profile from untrusted data (a parsed document value or the
+ * current settings). Unknown fields are dropped.
+ */
+function toProfile(raw: Record<string, unknown>, updatedAt: number, updatedBy: string): DocumentProfile {
+  const languageStyles: Record<string, LanguageStyle> = {};
+  if (raw.languageStyles && typeof raw.languageStyles === 'object') {
+    for (const [code, style] of Object.entries(raw.languageStyles as Record<string, unknown>)) {
+      const clean = cleanStyle(style);
+      if (clean.tone || clean.formality) languageStyles[code] = clean;
+    }
+  }
+  return {
+    glossary: cleanGlossary(raw.glossary),
+    preserveTerms: Array.isArray(raw.preserveTerms)
+      ? raw.preserveTerms.filter((t): t is string => typeof t === 'string')
+      : [],
+    tone: TONES.includes(raw.tone as PluginSettings['tone']) ? raw.tone as PluginSettings['tone'] : 'neutral',
+    formality: FORMALITIES.includes(raw.formality as PluginSettings['formality'])
+      ? raw.formality as PluginSettings['formality']
+      : 'auto',
+    languageStyles,
+    customInstructions: typeof raw.customInstructions === 'string' ? raw.customInstructions : '',
+    updatedAt,
+    updatedBy,
+  };
+}
+
+// ────────────────────────────────────────────
+// Storage (controller only)
+// ────────────────────────────────────────────
+
+/** The profile stored in the current file, or null when there is none. */
+export function loadDocumentProfile(): DocumentProfile | null {
+  try {
+    const raw = figma.root.getSharedPluginData(NAMESPACE, KEY);
+    if (!raw) return null;
+    const data = JSON.parse(raw);
+    if (!data || typeof data !== 'object') return null;
+    return toProfile(data, Number(data.updatedAt) || 0, typeof data.updatedBy === 'string' ? data.updatedBy : '');
+  } catch (_e) {
+    console.error('[PolyPaste] loadDocumentProfile failed:', _e);
+    return null;
+  }
+}
+
+/** Publish the rule fields of the given settings as the file's profile. */
+export function publishDocumentProfile(settings: PluginSettings): DocumentProfile {
+  const profile = toProfile(
+    settings as unknown as Record<string, unknown>,
+    Date.now(),
+    figma.currentUser?.name || '',
+  );
+  figma.root.setSharedPluginData(NAMESPACE, KEY, JSON.stringify(profile));
+  return profile;
+}
+
+export function removeDocumentProfile() {
+  figma.root.setSharedPluginData(NAMESPACE, KEY, '');
+}
+
+// ────────────────────────────────────────────
+// Effective settings
+// ────────────────────────────────────────────
+
+/** Personal settings with the document profile's rule fields laid on top. */
+export function applyDocumentProfile(settings: PluginSettings, profile: DocumentProfile | null): PluginSettings {
+  if (!profile) return settings;
+  return {
+    ...settings,
+    glossary: profile.glossary,
+    preserveTerms: profile.preserveTerms,
+    tone: profile.tone,
+    formality: profile.formality,
+    languageStyles: profile.languageStyles,
+    customInstructions: profile.customInstructions,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * provider.ts – Translation provider definitions
+ *
+ * Every supported backend speaks the Chat Completions wire format; they
+ * differ only in where the request goes and how it is authenticated.
+ * A provider turns the current settings into that endpoint + headers pair,
+ * which openai.ts then uses for the actual fetch.
+ */
+import { ModelRef, PluginSettings, ProviderId } from './types';
+
+export interface ProviderConnection {
+  /** Full chat-completions URL */
+  url: string;
+  headers: Record<string, string>;
+  /** Display name used in error messages */
+  label: string;
+}
+
+export interface TranslationProvider {
+  id: ProviderId;
+  name: string;
+  /** Local servers usually run without authentication. */
+  requiresApiKey: boolean;
+  /** Returns an error message when the connection settings are incomplete. */
+  validate(settings: PluginSettings): string | null;
+  connect(settings: PluginSettings, model: string): ProviderConnection;
+  /**
+   * Whether to ask for json_schema structured outputs. openai.ts still
+   * falls back to json_object when the endpoint rejects the schema.
+   */
+  supportsJsonSchema(settings: PluginSettings, model: string): boolean;
+}
+
+function trimSlash(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/** OpenAI models with structured outputs (the first gpt-4o snapshot predates them). */
+const OPENAI_SCHEMA_MODELS = /^(gpt-4o-mini|gpt-4o(?!-2024-05-13)|chatgpt-4o|gpt-4\.1|gpt-5|o1|o3|o4)/;
+
+/** First Azure API version with json_schema response formats. */
+const AZURE_SCHEMA_API_VERSION = '2024-08-01';
+
+const openai: TranslationProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  requiresApiKey: true,
+  validate: s => (s.apiKey ? null : 'Set your OpenAI API key in Settings.'),
+  connect: s => ({
+    url: 'https://api.openai.com/v1/chat/completions',
+    headers: { Authorization: `Bearer ${s.apiKey}` },
+    label: 'OpenAI',
+  }),
+  supportsJsonSchema: (_s, model) => OPENAI_SCHEMA_MODELS.test(model),
+};
+
+const openaiCompatible: TranslationProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible',
+  requiresApiKey: false,
+  validate: s => (s.baseUrl.trim() ? null : 'Set the base URL of your endpoint in Settings.'),
+  connect: s => ({
+    url: `${trimSlash(s.baseUrl)}/chat/completions`,
+    // Gateways often need a key, local servers (Ollama, llama.cpp) don't
+    headers: s.apiKey ? { Authorization: `Bearer ${s.apiKey}` } : {} as Record<string, string>,
+    label: 'Endpoint',
+  }),
+  // Recent Ollama, llama.cpp and vLLM accept it; older servers fall back after one 400
+  supportsJsonSchema: () => true,
+};
+
+const azure: TranslationProvider = {
+  id: 'azure',
+  name: 'Azure OpenAI',
+  requiresApiKey: true,
+  validate: s => {
+    if (!s.azureEndpoint.trim()) return 'Set your Azure OpenAI endpoint in Settings.';
+    if (!s.apiKey) return 'Set your Azure OpenAI API key in Settings.';
+    return null;
+  },
+  // On Azure the "model" is the deployment name
+  connect: (s, model) => ({
+    url:
+      `${trimSlash(s.azureEndpoint)}/openai/deployments/${encodeURIComponent(model)}` +
+      `/chat/completions?api-version=${encodeURIComponent(s.azureApiVersion)}`,
+    headers: { 'api-key': s.apiKey },
+    label: 'Azure OpenAI',
+  }),
+  // The deployment name says nothing about the model, so go by API version
+  supportsJsonSchema: s => s.azureApiVersion.trim() >= AZURE_SCHEMA_API_VERSION,
+};
+
+export const PROVIDERS: Record<ProviderId, TranslationProvider> = {
+  openai,
+  'openai-compatible': openaiCompatible,
+  azure,
+};
+
+/** The provider selected in settings (falls back to OpenAI for unknown ids). */
+export function getProvider(settings: PluginSettings): TranslationProvider {
+  return PROVIDERS[settings.provider] || openai;
+}
+
+/** The main model followed by the fallback models, without repeats. */
+export function modelChain(settings: PluginSettings): ModelRef[] {
+  const chain: ModelRef[] = [];
+  for (const ref of [{ provider: settings.provider, model: settings.model }, ...settings.fallbackModels]) {
+    if (!ref.model || !PROVIDERS[ref.provider]) continue;
+    if (chain.some(r => r.provider === ref.provider && r.model === ref.model)) continue;
+    chain.push(ref);
+  }
+  return chain;
+}
+
+/**
+ * Settings that send requests to `ref` instead of the selected provider
+ * and model. A model on another provider gets that provider's own key.
+ */
+export function withModel(settings: PluginSettings, ref: ModelRef): PluginSettings {
+  if (ref.provider === settings.provider) return { ...settings, model: ref.model };
+  const apiKey = (settings.apiKeys && settings.apiKeys[ref.provider]) || '';
+  return { ...settings, provider: ref.provider, model: ref.model, apiKey };
+}
+
+/** Resolve the connection for a model on the active provider. */
+export function connectionFor(settings: PluginSettings, model: string = settings.model): ProviderConnection {
+  return getProvider(settings).connect(settings, model);
+}
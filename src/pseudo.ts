@@ -0,0 +1,105 @@
+/**
+ * pseudo.ts – Local pseudo-localisation
+ *
+ * Generates fake translations without calling a model, so a design can be
+ * stress-tested (overflow, wrapping, RTL, wide glyphs) before paying for
+ * real translations:
+ *
+ *   accented  "Sign in"  → "[Šîĝñ îñ ŀ]"
+ *   rtl       "Sign in"  → "[עטזם טם כ]"     (Hebrew letters, flows right-to-left)
+ *   cjk       "Sign in"  → "【Ｓｉｇｎ　ｉｎ　ｌ】"
+ *
+ * Placeholders, inline style tags, URLs and line breaks are left untouched.
+ * Pure string logic — runs in the UI iframe in place of translateBatch().
+ */
+import { PluginSettings, PseudoKind, TextEntry } from './types';
+import { sourceText } from './translate';
+import { URL_PATTERN } from './validate';
+
+const ACCENTED: Record<string, string> = {
+  a: 'á', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'î', j: 'ĵ',
+  k: 'ķ', l: 'ŀ', m: 'ɱ', n: 'ñ', o: 'ő', p: 'ƥ', q: 'ʠ', r: 'ŕ', s: 'š', t: 'ţ',
+  u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'Å', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ',
+  K: 'Ķ', L: 'Ŀ', M: 'Ṁ', N: 'Ñ', O: 'Ő', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ',
+  U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+};
+
+/** URLs, placeholders and inline style tags — copied through verbatim. */
+const PROTECTED = new RegExp(
+  `${URL_PATTERN.source}|\\{\\{\\s*[\\w.-]+\\s*\\}\\}|\\$\\{[^}]+\\}|\\{[\\w.-]*\\}|%(?:\\d+\\$)?[sdif@]|<\\/?\\d+>|\\r?\\n`,
+  'g',
+);
+
+const FILLER = ' lorem ipsum dolor sit amet consectetur adipiscing elit';
+
+function mapChar(ch: string, kind: PseudoKind): string {
+  const code = ch.charCodeAt(0);
+  switch (kind) {
+    case 'accented':
+      return ACCENTED[ch] || ch;
+    case 'rtl':
+      // Latin letters → Hebrew block, so the text really flows right-to-left
+      if (code >= 0x61 && code <= 0x7a) return String.fromCharCode(0x05d0 + code - 0x61);
+      if (code >= 0x41 && code <= 0x5a) return String.fromCharCode(0x05d0 + code - 0x41);
+      return ch;
+    case 'cjk':
+      // Printable ASCII → full-width forms (double width, like CJK glyphs)
+      if (code === 0x20) return '　';
+      if (code > 0x20 && code < 0x7f) return String.fromCharCode(code + 0xfee0);
+      return ch;
+  }
+}
+
+function mapText(text: string, kind: PseudoKind): string {
+  let out = '';
+  for (const ch of text) out += mapChar(ch, kind);
+  return out;
+}
+
+/** Pseudo-localise one string. Empty or whitespace-only text is returned as is. */
+export function pseudoLocalize(text: string, kind: PseudoKind, settings: PluginSettings): string {
+  if (!text.trim()) return text;
+
+  let out = '';
+  let visible = 0;
+  let last = 0;
+  PROTECTED.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = PROTECTED.exec(text)) !== null) {
+    const plain = text.slice(last, m.index);
+    out += mapText(plain, kind);
+    visible += plain.length;
+    out += m[0];
+    last = m.index + m[0].length;
+  }
+  const tail = text.slice(last);
+  out += mapText(tail, kind);
+  visible += tail.length;
+
+  // Pad with filler words to simulate longer languages
+  const extra = Math.round(visible * Math.max(0, settings.pseudoExpansion) / 100);
+  if (extra > 0) {
+    let filler = '';
+    while (filler.length < extra) filler += FILLER;
+    out += mapText(filler.slice(0, extra), kind);
+  }
+
+  if (settings.pseudoBrackets) {
+    out = kind === 'cjk' ? `【${out}】` : `[${out}]`;
+  }
+  return out;
+}
+
+/** Pseudo-localise a batch of entries, keyed by entry ID (same shape as translateBatch). */
+export function pseudoTranslateBatch(
+  entries: TextEntry[],
+  kind: PseudoKind,
+  settings: PluginSettings,
+): Record<string, string> {
+  const translations: Record<string, string> = {};
+  for (const entry of entries) {
+    translations[entry.id] = pseudoLocalize(sourceText(entry), kind, settings);
+  }
+  return translations;
+}
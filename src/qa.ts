@@ -8,8 +8,30 @@
  *  2. Overflow    — text doesn't fit in a fixed-size container             → red
  *  3. Container   — node extends beyond a fixed-size ancestor frame        → red
  *  4. Font errors — font couldn't be loaded                                → amber
+ *  5. Glossary    — a glossary term's required translation is missing      → amber
+ *  6. Integrity   — placeholders / tags / URLs / emojis / line breaks lost → red
+ *  7. Missing     — the model never returned a translation                 → red
+ *  8. Untranslated — the translation is identical to the source            → amber
+ *
+ * Checks 5–8 are not layout issues, so they are not listed in
+ * issueEntryIds (which drives "Rewrite shorter"). Checks 6–8 look at the
+ * raw translations (with inline tags) rather than the applied text.
+ * Layout issues carry the measured space (`fit`), which auto-fit turns
+ * into a character budget.
  */
-import { TextEntry, QAIssue, QAReport, Language, Severity } from './types';
+import {
+  TextEntry,
+  QAIssue,
+  QAReport,
+  Language,
+  Severity,
+  SourceFrame,
+  FrameQASummary,
+  PluginSettings,
+} from './types';
+import { glossaryViolations } from './glossary';
+import { validateTranslation, isUntranslated } from './validate';
+import { sourceText } from './translate';
 
 // ────────────────────────────────────────────
 // Public API
@@ -20,6 +42,9 @@ export function runQA(
   originalEntries: TextEntry[],
   language: Language,
   fontErrors: string[],
+  frames: SourceFrame[],
+  translations: Record<string, string>,
+  settings: PluginSettings,
 ): QAReport {
   const issues: QAIssue[] = [];
   const issueEntryIds = new Set<string>();
@@ -35,6 +60,61 @@ export function runQA(
     const original = originalMap.get(id);
     if (!original) continue;
 
+    // ── Check 5: Glossary terms ──
+    for (const v of glossaryViolations(original.characters, textNode.characters, language.code, settings.glossary)) {
+      issues.push({
+        severity: 'amber',
+        type: 'glossary',
+        nodeId: textNode.id,
+        nodeName: textNode.name,
+        message: `Glossary: "${v.term}" → "${v.target}"`,
+        frameId: original.frameId,
+        entryId: id,
+      });
+    }
+
+    const translation = translations[id];
+    if (translation === undefined) {
+      // ── Check 7: Missing translation (clone still shows the source) ──
+      issues.push({
+        severity: 'red',
+        type: 'missing-translation',
+        nodeId: textNode.id,
+        nodeName: textNode.name,
+        message: 'Not translated',
+        frameId: original.frameId,
+        entryId: id,
+      });
+    } else {
+      // ── Check 6: Placeholder / markup integrity ──
+      const source = sourceText(original);
+      const problems = validateTranslation(source, translation, settings);
+      if (problems.length > 0) {
+        issues.push({
+          severity: 'red',
+          type: 'placeholder-mismatch',
+          nodeId: textNode.id,
+          nodeName: textNode.name,
+          message: `Integrity: ${problems.join('; ')}`,
+          frameId: original.frameId,
+          entryId: id,
+        });
+      }
+
+      // ── Check 8: Returned unchanged ──
+      if (isUntranslated(source, translation, language.code, settings)) {
+        issues.push({
+          severity: 'amber',
+          type: 'untranslated',
+          nodeId: textNode.id,
+          nodeName: textNode.name,
+          message: 'Same as source',
+          frameId: original.frameId,
+          entryId: id,
+        });
+      }
+    }
+
     const origHeight = original.height;
     const lineHeight = (original.lineHeight && original.lineHeight > 0)
       ? original.lineHeight
@@ -54,6 +134,9 @@ export function runQA(
           nodeId: textNode.id,
           nodeName: textNode.name,
           message: 'Overflow',
+          frameId: original.frameId,
+          entryId: id,
+          fit: { chars: textNode.characters.length, available: fixedHeight, needed: neededHeight },
         });
         continue; // Skip further checks for this node
       }
@@ -77,12 +160,16 @@ export function runQA(
           nodeId: textNode.id,
           nodeName: textNode.name,
           message: extraLines === 1 ? 'New line' : `+${extraLines} lines`,
+          frameId: original.frameId,
+          entryId: id,
+          fit: { chars: textNode.characters.length, available: origHeight + threshold, needed: currentHeight },
         });
       }
     }
 
     // ── Check 3: Breaks a fixed-size ancestor frame ──
     // This catches ALL resize modes — if a node visually exceeds its parent.
+    // A node that starts past the frame's edge has no room to measure, so no fit
     const parentCheck = checkParentOverflow(textNode);
     if (parentCheck.overflows) {
       issueEntryIds.add(id);
@@ -92,6 +179,11 @@ export function runQA(
         nodeId: textNode.id,
         nodeName: textNode.name,
         message: 'Breaks container',
+        frameId: original.frameId,
+        entryId: id,
+        ...(parentCheck.available > 0
+          ? { fit: { chars: textNode.characters.length, available: parentCheck.available, needed: parentCheck.needed } }
+          : {}),
       });
     }
   }
@@ -104,14 +196,28 @@ export function runQA(
       nodeId: '',
       nodeName: '',
       message: 'Missing font',
+      frameId: '',
+      entryId: '',
     });
   }
 
   const redCount = issues.filter(i => i.severity === 'red').length;
   const amberCount = issues.filter(i => i.severity === 'amber').length;
-  let status: Severity = 'green';
-  if (redCount > 0) status = 'red';
-  else if (amberCount > 0) status = 'amber';
+  const status = severityFor(redCount, amberCount);
+
+  // ── Per-frame breakdown ──
+  const frameSummaries: FrameQASummary[] = frames.map(frame => {
+    const own = issues.filter(i => i.frameId === frame.nodeId);
+    const red = own.filter(i => i.severity === 'red').length;
+    const amber = own.filter(i => i.severity === 'amber').length;
+    return {
+      frameId: frame.nodeId,
+      frameName: frame.nodeName,
+      status: severityFor(red, amber),
+      amberIssues: amber,
+      redIssues: red,
+    };
+  });
 
   return {
     langCode: language.code,
@@ -121,9 +227,16 @@ export function runQA(
     issueEntryIds: [...issueEntryIds],
     amberIssues: amberCount,
     redIssues: redCount,
+    frames: frameSummaries,
   };
 }
 
+function severityFor(red: number, amber: number): Severity {
+  if (red > 0) return 'red';
+  if (amber > 0) return 'amber';
+  return 'green';
+}
+
 // ────────────────────────────────────────────
 // Measurements
 // ────────────────────────────────────────────
@@ -179,6 +292,18 @@ function measureNeededHeight(textNode: TextNode): number {
 // Parent overflow
 // ────────────────────────────────────────────
 
+export interface ParentOverflow {
+  overflows: boolean;
+  parentName: string;
+  /** The fixed frame that is overflowed, and on which axis */
+  frame: FrameNode | null;
+  axis: 'horizontal' | 'vertical' | null;
+  /** Room from the node's edge to the frame's edge on the overflowing axis, in px (0 when the node starts past it) */
+  available: number;
+  /** The node's size on that axis, in px */
+  needed: number;
+}
+
 /**
  * Walk up the tree and check if the node extends beyond any
  * ancestor frame that has fixed dimensions (would cause clipping
@@ -187,9 +312,9 @@ function measureNeededHeight(textNode: TextNode): number {
  * Checks both auto-layout frames with FIXED sizing modes
  * and regular frames (which always have fixed dimensions).
  */
-function checkParentOverflow(node: SceneNode): { overflows: boolean; parentName: string } {
+export function checkParentOverflow(node: SceneNode): ParentOverflow {
   const nodeBounds = node.absoluteBoundingBox;
-  if (!nodeBounds) return { overflows: false, parentName: '' };
+  if (!nodeBounds) return { overflows: false, parentName: '', frame: null, axis: null, available: 0, needed: 0 };
 
   let current: BaseNode | null = node.parent;
   while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
@@ -202,17 +327,31 @@ function checkParentOverflow(node: SceneNode): { overflows: boolean; parentName:
         const overflowV = nodeBounds.y + nodeBounds.height > fb.y + fb.height + T;
 
         if (overflowH && isFixedOnAxis(frame, 'horizontal')) {
-          return { overflows: true, parentName: frame.name };
+          return {
+            overflows: true,
+            parentName: frame.name,
+            frame,
+            axis: 'horizontal',
+            available: Math.max(0, fb.x + fb.width - nodeBounds.x),
+            needed: nodeBounds.width,
+          };
         }
         if (overflowV && isFixedOnAxis(frame, 'vertical')) {
-          return { overflows: true, parentName: frame.name };
+          return {
+            overflows: true,
+            parentName: frame.name,
+            frame,
+            axis: 'vertical',
+            available: Math.max(0, fb.y + fb.height - nodeBounds.y),
+            needed: nodeBounds.height,
+          };
         }
       }
     }
     current = current.parent;
   }
 
-  return { overflows: false, parentName: '' };
+  return { overflows: false, parentName: '', frame: null, axis: null, available: 0, needed: 0 };
 }
 
 function isFrameLike(node: BaseNode): boolean {
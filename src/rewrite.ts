@@ -0,0 +1,242 @@
+/**
+ * rewrite.ts – Post-translation rewrites
+ *
+ * A rewrite sends existing translations back to the model with one
+ * direction: shorter, more formal, more casual, simpler wording,
+ * gender-neutral, or a free-text instruction. The UI passes the result to
+ * the controller as an apply-rewrites message, which updates the clones
+ * and re-runs QA.
+ *
+ * A rewritten string is only kept when its placeholders, tags, URLs,
+ * emojis and line breaks still match the source (see validate.ts).
+ *
+ * Auto-fit is a shorter rewrite with a per-string character budget,
+ * derived from the space QA measured on the clone (fitBudgets).
+ *
+ * Runs in the UI iframe.
+ */
+import { FitMeasurement, PluginSettings, QAReport, TextEntry, TokenUsage } from './types';
+import { scheduleRequest } from './scheduler';
+import { connectionFor } from './provider';
+import { responseSchema, sourceText } from './translate';
+import { glossaryForBatch } from './glossary';
+import { validateTranslation } from './validate';
+import { chunkEntries } from './chunk';
+import { addUsage, emptyUsage, responseUsage } from './cost';
+
+export type RewriteMode = 'shorter' | 'formal' | 'casual' | 'simpler' | 'gender-neutral' | 'custom';
+
+export interface RewriteModeInfo {
+  id: RewriteMode;
+  label: string;
+  /** What the model is asked to do ('' for custom, which uses the user's text) */
+  instruction: string;
+}
+
+export const REWRITE_MODES: RewriteModeInfo[] = [
+  {
+    id: 'shorter',
+    label: 'Shorter',
+    instruction: 'These strings are too long for their UI containers. Rewrite each one SHORTER while keeping the exact same meaning.',
+  },
+  {
+    id: 'formal',
+    label: 'More formal',
+    instruction: 'Rewrite each one in a more formal register (formal address where the language has one, no slang) while keeping the same meaning.',
+  },
+  {
+    id: 'casual',
+    label: 'More casual',
+    instruction: 'Rewrite each one in a more casual, friendly register (informal address where the language has one) while keeping the same meaning.',
+  },
+  {
+    id: 'simpler',
+    label: 'Simpler wording',
+    instruction: 'Rewrite each one with simpler, plainer words and shorter sentences while keeping the same meaning.',
+  },
+  {
+    id: 'gender-neutral',
+    label: 'Gender-neutral',
+    instruction: 'Rewrite each one to be gender-neutral, using the inclusive forms that read naturally in this language, while keeping the same meaning.',
+  },
+  { id: 'custom', label: 'Custom instruction', instruction: '' },
+];
+
+export function rewriteModeLabel(mode: RewriteMode): string {
+  return REWRITE_MODES.find(m => m.id === mode)?.label || mode;
+}
+
+export interface RewriteRequest {
+  mode: RewriteMode;
+  /** The user's text for the custom mode */
+  instruction?: string;
+  /** Entry ID → max visible characters; turns the request into a fit-to-container rewrite */
+  budgets?: Record<string, number>;
+}
+
+// ────────────────────────────────────────────
+// Fit budgets
+// ────────────────────────────────────────────
+
+/** Aim a little below the measured room, since characters are not all the same width. */
+const FIT_MARGIN = 0.9;
+
+/**
+ * Visible characters expected to fit, scaling the current length by the
+ * measured room. Always at least one character shorter than now.
+ */
+export function fitBudget(m: FitMeasurement): number {
+  if (m.needed <= 0) return Math.max(1, m.chars - 1);
+  const scaled = Math.floor(m.chars * (m.available / m.needed) * FIT_MARGIN);
+  return Math.max(1, Math.min(m.chars - 1, scaled));
+}
+
+/** Budgets for every string with a measured layout issue (the tightest one when it has several). */
+export function fitBudgets(report: QAReport): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  for (const issue of report.issues) {
+    if (!issue.fit || !issue.entryId) continue;
+    const budget = fitBudget(issue.fit);
+    budgets[issue.entryId] = issue.entryId in budgets ? Math.min(budgets[issue.entryId], budget) : budget;
+  }
+  return budgets;
+}
+
+// ────────────────────────────────────────────
+// Rewrite
+// ────────────────────────────────────────────
+
+export interface RewriteResult {
+  translations: Record<string, string> | null;
+  error: string | null;
+  usage: TokenUsage;
+  /** IDs whose rewrite broke placeholders or markup and was dropped */
+  rejected: string[];
+}
+
+/**
+ * Rewrite the current translations of `entries` in one language.
+ * `current` holds the translations to rewrite (entries without one are
+ * skipped). Large sets are split into chunks like a translation run.
+ */
+export async function rewriteTranslations(
+  langName: string,
+  langCode: string,
+  entries: TextEntry[],
+  current: Record<string, string>,
+  request: RewriteRequest,
+  settings: PluginSettings,
+  signal?: AbortSignal,
+): Promise<RewriteResult> {
+  const usage = emptyUsage();
+  const targets = entries.filter(e => current[e.id]);
+  if (targets.length === 0) return { translations: {}, error: null, usage, rejected: [] };
+
+  const instruction = request.mode === 'custom'
+    ? `Instruction: ${(request.instruction || '').trim()}`
+    : REWRITE_MODES.find(m => m.id === request.mode)?.instruction || '';
+  if (request.mode === 'custom' && !(request.instruction || '').trim()) {
+    return { translations: null, error: 'Enter a rewrite instruction.', usage, rejected: [] };
+  }
+
+  // The current translation travels with each source string, so use half a translation chunk
+  const chunks = chunkEntries(targets, settings.chunkCharBudget / 2);
+  const results = await Promise.all(
+    chunks.map(chunk =>
+      rewriteChunk(langName, langCode, chunk, current, instruction, request.budgets, settings, usage, signal),
+    ),
+  );
+
+  const translations: Record<string, string> = {};
+  const rejected: string[] = [];
+  let succeeded = 0;
+  let lastError = '';
+  for (const r of results) {
+    if (!r.translations) {
+      lastError = r.error || lastError;
+      continue;
+    }
+    succeeded++;
+    for (const e of r.entries) {
+      const val = r.translations[e.id];
+      if (val === undefined) continue;
+      if (validateTranslation(sourceText(e), val, settings).length === 0) translations[e.id] = val;
+      else rejected.push(e.id);
+    }
+  }
+  if (succeeded === 0) return { translations: null, error: lastError || 'Rewrite failed', usage, rejected };
+  return { translations, error: null, usage, rejected };
+}
+
+interface ChunkResult {
+  entries: TextEntry[];
+  translations: Record<string, string> | null;
+  error: string | null;
+}
+
+/** One request for a chunk; rewriteTranslations validates what comes back. */
+async function rewriteChunk(
+  langName: string,
+  langCode: string,
+  entries: TextEntry[],
+  current: Record<string, string>,
+  instruction: string,
+  budgets: Record<string, number> | undefined,
+  settings: PluginSettings,
+  usage: TokenUsage,
+  signal?: AbortSignal,
+): Promise<ChunkResult> {
+  const strings: Record<string, { original: string; current: string; maxChars?: number }> = {};
+  for (const e of entries) {
+    strings[e.id] = { original: sourceText(e), current: current[e.id] };
+    if (budgets && budgets[e.id] !== undefined) strings[e.id].maxChars = budgets[e.id];
+  }
+
+  // A rewrite must not undo the required terminology
+  const glossary = glossaryForBatch(entries, langCode, settings.glossary);
+  const hasGlossary = Object.keys(glossary).length > 0;
+
+  const systemPrompt =
+    'You are a professional UI translator. Rewrite existing translations as instructed. Respond with valid json only.';
+
+  const userPrompt = [
+    `Rewrite these ${langName} translations of UI strings.`,
+    budgets
+      ? 'Each string has maxChars: the visible characters (inline tags not counted) that fit in its UI container. ' +
+        'Rewrite each one to at most maxChars characters, keeping the meaning and as much of the wording as fits.'
+      : instruction,
+    '',
+    'Rules:',
+    '- Keep placeholders exactly unchanged: {name}, {{name}}, %s, %d, URLs, {0}, etc.',
+    '- Keep numbered inline tags like <1>…</1> around the matching words.',
+    '- Keep emojis and line breaks.',
+    ...(settings.preserveTerms.length > 0 ? [`- Do not translate: ${JSON.stringify(settings.preserveTerms)}`] : []),
+    ...(hasGlossary ? [`- Keep these glossary translations: ${JSON.stringify(glossary)}`] : []),
+    'Return json only: { "<id>": "rewritten text", ... }',
+    '',
+    JSON.stringify(strings),
+  ].join('\n');
+
+  const response = await scheduleRequest({
+    connection: connectionFor(settings),
+    model: settings.model,
+    systemPrompt,
+    userPrompt,
+    temperature: 0.3,
+    jsonSchema: responseSchema(entries.map(e => e.id), settings),
+    signal,
+  });
+  addUsage(usage, responseUsage(settings.model, response.usage));
+
+  if (!response.ok) return { entries, translations: null, error: response.error || 'Rewrite failed' };
+
+  const data = response.data;
+  if (!data || typeof data !== 'object') return { entries, translations: null, error: 'Invalid response' };
+
+  const result: Record<string, string> = {};
+  for (const e of entries) {
+    const val = (data as Record<string, unknown>)[e.id];
+    if (typeof val === 'string') result[e.id] = val;
+  }
+  return { entries, translations: result, error: null };
+}
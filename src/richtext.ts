@@ -0,0 +1,102 @@
+/**
+ * richtext.ts – Lightweight inline markup for mixed-style text
+ *
+ * A text layer with several styled ranges (bold words, links, coloured
+ * spans) is sent to the model as plain text with numbered tags:
+ *
+ *   "Read our <1>terms</1> before you <2>continue</2>."
+ *
+ * Tag 0 is implicit — it is the base style (the one covering the most
+ * characters). Every other distinct style gets its own number, and the
+ * same style always reuses the same number. After translation the tags
+ * are parsed back into character ranges so styles can be re-applied.
+ *
+ * Pure string logic — the Figma-side capture/apply lives in duplicate.ts.
+ */
+
+export interface MarkupSegment {
+  characters: string;
+  /** Opaque key identifying the segment's style */
+  styleKey: string;
+}
+
+export interface MarkupRange {
+  /** Style index (≥ 1) */
+  tag: number;
+  start: number;
+  end: number;
+}
+
+const TAG = /<(\/?)(\d+)>/g;
+
+/**
+ * Build markup from styled segments.
+ * Returns null when every segment shares one style (no markup needed).
+ * `styleKeys[i]` is the style of tag i; index 0 is the base style.
+ */
+export function buildMarkup(segments: MarkupSegment[]): { markup: string; styleKeys: string[] } | null {
+  const lengths = new Map<string, number>();
+  for (const seg of segments) {
+    lengths.set(seg.styleKey, (lengths.get(seg.styleKey) || 0) + seg.characters.length);
+  }
+  if (lengths.size < 2) return null;
+
+  let base = '';
+  let longest = -1;
+  for (const [key, len] of lengths) {
+    if (len > longest) { base = key; longest = len; }
+  }
+
+  const styleKeys = [base];
+  let markup = '';
+  for (const seg of segments) {
+    if (seg.styleKey === base) {
+      markup += seg.characters;
+      continue;
+    }
+    let tag = styleKeys.indexOf(seg.styleKey);
+    if (tag === -1) tag = styleKeys.push(seg.styleKey) - 1;
+    markup += `<${tag}>${seg.characters}</${tag}>`;
+  }
+  return { markup, styleKeys };
+}
+
+/**
+ * Strip tags from translated markup and return the plain text together
+ * with the character range each tag covered. Unbalanced tags are dropped.
+ * Ranges are ordered outer-first so nested tags win when applied in order.
+ */
+export function parseMarkup(markup: string): { text: string; ranges: MarkupRange[] } {
+  let text = '';
+  const ranges: MarkupRange[] = [];
+  const open: { tag: number; start: number }[] = [];
+  let last = 0;
+
+  TAG.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = TAG.exec(markup)) !== null) {
+    text += markup.slice(last, m.index);
+    last = m.index + m[0].length;
+    const tag = parseInt(m[2], 10);
+    if (!m[1]) {
+      open.push({ tag, start: text.length });
+      continue;
+    }
+    // Close the most recent matching open tag
+    for (let i = open.length - 1; i >= 0; i--) {
+      if (open[i].tag !== tag) continue;
+      ranges.push({ tag, start: open[i].start, end: text.length });
+      open.splice(i, 1);
+      break;
+    }
+  }
+  text += markup.slice(last);
+
+  ranges.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  return { text, ranges };
+}
+
+/** Plain text of a markup string. */
+export function stripMarkup(markup: string): string {
+  return markup.replace(TAG, '');
+}
@@ -0,0 +1,322 @@
+/**
+ * rtl.ts – Recursive RTL layout mirroring
+ *
+ * Runs in the Figma controller on CLONED nodes, never on the originals.
+ * Walks the whole clone and mirrors it horizontally:
+ *
+ *  - Horizontal auto-layout  → children reversed, primary alignment MIN ↔ MAX
+ *  - Vertical auto-layout    → counter-axis alignment MIN ↔ MAX
+ *  - Any auto-layout         → paddingLeft ↔ paddingRight
+ *  - Non-auto-layout frames  → child x positions flipped, constraints LEFT ↔ RIGHT
+ *  - Absolutely positioned children of auto-layout frames are flipped too
+ *
+ * Layers whose name matches one of `rtlOptOutPatterns` (logos, media
+ * players, …) still move to the mirrored position inside their parent,
+ * but their own contents are left untouched.
+ *
+ * Directional icons (arrows, chevrons, back buttons) matching
+ * `flipIconPatterns` are handled separately by flipDirectionalIcons():
+ * instances switch to an RTL variant when their component set has one,
+ * everything else is flipped horizontally in place.
+ */
+import { PluginSettings } from './types';
+
+export interface MirrorReport {
+  /** Horizontal auto-layout frames whose children were reversed */
+  rows: number;
+  /** Frames whose left/right padding was swapped */
+  paddings: number;
+  /** Frames whose horizontal alignment was flipped */
+  alignments: number;
+  /** Children whose x position was flipped */
+  positions: number;
+  /** Children whose horizontal constraint was flipped */
+  constraints: number;
+  /** Layers skipped because of an opt-out pattern */
+  optedOut: number;
+  /** Operations Figma rejected (e.g. reordering inside an instance) */
+  failed: number;
+}
+
+// ────────────────────────────────────────────
+// Layer name patterns
+// ────────────────────────────────────────────
+
+/**
+ * Case-insensitive glob match against a layer name.
+ * `*` matches any run of characters, `?` a single character.
+ */
+export function matchesNamePattern(name: string, patterns: string[]): boolean {
+  const lower = name.toLowerCase();
+  return patterns.some(p => {
+    const source = p
+      .trim()
+      .toLowerCase()
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+    return source !== '' && new RegExp(`^${source}$`).test(lower);
+  });
+}
+
+// ────────────────────────────────────────────
+// Mirroring
+// ────────────────────────────────────────────
+
+type Container = FrameNode | ComponentNode | InstanceNode;
+
+function isAutoLayoutContainer(node: BaseNode): node is Container {
+  return (
+    (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') &&
+    (node as FrameNode).layoutMode !== 'NONE'
+  );
+}
+
+function flipAlign<T extends string>(value: T): T {
+  if (value === 'MIN') return 'MAX' as T;
+  if (value === 'MAX') return 'MIN' as T;
+  return value;
+}
+
+/** Try one mutation; count it on success, count a failure otherwise. */
+function attempt(report: MirrorReport, key: keyof MirrorReport, fn: () => boolean | void) {
+  try {
+    if (fn() !== false) report[key]++;
+  } catch (_e) {
+    report.failed++;
+  }
+}
+
+/**
+ * Flip a child's x position within its container.
+ * Frame children are positioned relative to the frame; group children are
+ * positioned in the group's parent space, so the group's own x is the origin.
+ */
+function flipPosition(child: SceneNode, container: SceneNode, report: MirrorReport) {
+  if ('rotation' in child && Math.abs(child.rotation) > 0.01) return; // x is not the left edge
+  const originX = container.type === 'GROUP' ? container.x : 0;
+  attempt(report, 'positions', () => {
+    const next = originX * 2 + container.width - child.x - child.width;
+    if (Math.abs(next - child.x) < 0.01) return false;
+    child.x = next;
+  });
+
+  if ('constraints' in child) {
+    const c = child.constraints;
+    if (c.horizontal === 'MIN' || c.horizontal === 'MAX') {
+      attempt(report, 'constraints', () => {
+        child.constraints = { horizontal: flipAlign(c.horizontal), vertical: c.vertical };
+      });
+    }
+  }
+}
+
+function mirrorNode(node: SceneNode, settings: PluginSettings, report: MirrorReport) {
+  if (!('children' in node)) return;
+
+  // ── Auto-layout containers ──
+  if (isAutoLayoutContainer(node)) {
+    const frame = node;
+    if (frame.paddingLeft !== frame.paddingRight) {
+      attempt(report, 'paddings', () => {
+        const left = frame.paddingLeft;
+        frame.paddingLeft = frame.paddingRight;
+        frame.paddingRight = left;
+      });
+    }
+
+    if (frame.layoutMode === 'HORIZONTAL') {
+      const flow = frame.children.filter(c => !('layoutPositioning' in c) || c.layoutPositioning !== 'ABSOLUTE');
+      if (flow.length > 1) {
+        attempt(report, 'rows', () => {
+          for (let i = flow.length - 1; i >= 0; i--) frame.appendChild(flow[i]);
+        });
+      }
+      if (frame.primaryAxisAlignItems === 'MIN' || frame.primaryAxisAlignItems === 'MAX') {
+        attempt(report, 'alignments', () => {
+          frame.primaryAxisAlignItems = flipAlign(frame.primaryAxisAlignItems);
+        });
+      }
+    } else if (frame.layoutMode === 'VERTICAL') {
+      if (frame.counterAxisAlignItems === 'MIN' || frame.counterAxisAlignItems === 'MAX') {
+        attempt(report, 'alignments', () => {
+          frame.counterAxisAlignItems = flipAlign(frame.counterAxisAlignItems);
+        });
+      }
+    }
+
+    // Absolutely positioned children behave like free-form children
+    for (const child of frame.children) {
+      if ('layoutPositioning' in child && child.layoutPositioning === 'ABSOLUTE') {
+        flipPosition(child, frame, report);
+      }
+    }
+  } else if (node.type !== 'BOOLEAN_OPERATION') {
+    // ── Free-form containers (frames without auto-layout, groups, sections) ──
+    for (const child of (node as ChildrenMixin).children) {
+      flipPosition(child as SceneNode, node, report);
+    }
+  }
+
+  // ── Recurse ──
+  for (const child of (node as ChildrenMixin).children) {
+    const sceneChild = child as SceneNode;
+    if (matchesNamePattern(sceneChild.name, settings.rtlOptOutPatterns)) {
+      report.optedOut++;
+      continue;
+    }
+    // Icons are flipped as a whole later; mirroring their insides would double-flip
+    if (isDirectionalIcon(sceneChild, settings)) continue;
+    mirrorNode(sceneChild, settings, report);
+  }
+}
+
+/**
+ * Mirror a cloned node tree for RTL. The root keeps its own position;
+ * everything inside it is mirrored.
+ */
+export function mirrorLayoutRTL(root: SceneNode, settings: PluginSettings): MirrorReport {
+  const report: MirrorReport = {
+    rows: 0,
+    paddings: 0,
+    alignments: 0,
+    positions: 0,
+    constraints: 0,
+    optedOut: 0,
+    failed: 0,
+  };
+  if (!matchesNamePattern(root.name, settings.rtlOptOutPatterns)) {
+    mirrorNode(root, settings, report);
+  }
+  return report;
+}
+
+/** Add two reports together (one report per language across all clones). */
+export function mergeMirrorReports(a: MirrorReport, b: MirrorReport): MirrorReport {
+  return {
+    rows: a.rows + b.rows,
+    paddings: a.paddings + b.paddings,
+    alignments: a.alignments + b.alignments,
+    positions: a.positions + b.positions,
+    constraints: a.constraints + b.constraints,
+    optedOut: a.optedOut + b.optedOut,
+    failed: a.failed + b.failed,
+  };
+}
+
+/** One-line summary for the language progress detail. */
+export function describeMirrorReport(r: MirrorReport): string {
+  const parts: string[] = [];
+  if (r.rows) parts.push(`${r.rows} row${r.rows === 1 ? '' : 's'} reversed`);
+  if (r.positions) parts.push(`${r.positions} position${r.positions === 1 ? '' : 's'} flipped`);
+  if (r.paddings) parts.push(`${r.paddings} padding${r.paddings === 1 ? '' : 's'} swapped`);
+  if (r.alignments) parts.push(`${r.alignments} alignment${r.alignments === 1 ? '' : 's'} flipped`);
+  if (r.constraints) parts.push(`${r.constraints} constraint${r.constraints === 1 ? '' : 's'} flipped`);
+  if (parts.length === 0) parts.push('Nothing to mirror');
+  let text = `Mirrored: ${parts.join(', ')}`;
+  if (r.optedOut) text += ` · ${r.optedOut} opted out`;
+  if (r.failed) text += ` · ${r.failed} not changeable`;
+  return text;
+}
+
+// ────────────────────────────────────────────
+// Directional icons
+// ────────────────────────────────────────────
+
+export interface IconFlipReport {
+  /** Nodes flipped horizontally */
+  flipped: number;
+  /** Instances switched to an RTL variant */
+  swapped: number;
+  failed: number;
+}
+
+const ICON_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'INSTANCE'];
+
+/** Variant values that denote the right-to-left version of a component. */
+const RTL_VARIANT = /^(?:rtl|right[- ]?to[- ]?left)$/i;
+
+function isDirectionalIcon(node: SceneNode, settings: PluginSettings): boolean {
+  return (
+    settings.flipIcons &&
+    ICON_TYPES.includes(node.type) &&
+    matchesNamePattern(node.name, settings.flipIconPatterns)
+  );
+}
+
+/**
+ * Switch an instance to the RTL variant of its component set, if one exists.
+ * Returns false when the component has no such variant.
+ */
+async function swapToRTLVariant(instance: InstanceNode): Promise<boolean> {
+  const main = await instance.getMainComponentAsync();
+  const set = main?.parent;
+  if (!set || set.type !== 'COMPONENT_SET') return false;
+
+  for (const [prop, def] of Object.entries(set.componentPropertyDefinitions)) {
+    if (def.type !== 'VARIANT' || !def.variantOptions) continue;
+    const rtl = def.variantOptions.find(v => RTL_VARIANT.test(v));
+    if (!rtl) continue;
+    if (instance.componentProperties[prop]?.value === rtl) return true;
+    instance.setProperties({ [prop]: rtl });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Mirror a node horizontally around its own centre. Post-multiplying the
+ * transform by a local x-flip keeps the bounding box where it was.
+ */
+function flipHorizontally(node: SceneNode & LayoutMixin) {
+  const [[a, b, tx], [c, d, ty]] = node.relativeTransform;
+  const w = node.width;
+  node.relativeTransform = [
+    [-a, b, a * w + tx],
+    [-c, d, c * w + ty],
+  ];
+}
+
+/**
+ * Flip (or variant-swap) every directional icon inside a cloned tree.
+ * Opted-out layers are not searched.
+ */
+export async function flipDirectionalIcons(root: SceneNode, settings: PluginSettings): Promise<IconFlipReport> {
+  const report: IconFlipReport = { flipped: 0, swapped: 0, failed: 0 };
+
+  async function walk(node: SceneNode) {
+    if (matchesNamePattern(node.name, settings.rtlOptOutPatterns)) return;
+
+    if (isDirectionalIcon(node, settings)) {
+      try {
+        if (node.type === 'INSTANCE' && await swapToRTLVariant(node)) {
+          report.swapped++;
+        } else {
+          flipHorizontally(node as SceneNode & LayoutMixin);
+          report.flipped++;
+        }
+      } catch (_e) {
+        report.failed++;
+      }
+      return;
+    }
+
+    if ('children' in node) {
+      for (const child of (node as ChildrenMixin).children) {
+        await walk(child as SceneNode);
+      }
+    }
+  }
+
+  await walk(root);
+  return report;
+}
+
+/** One-line summary for the language progress detail ('' when nothing happened). */
+export function describeIconFlipReport(r: IconFlipReport): string {
+  const parts: string[] = [];
+  if (r.flipped) parts.push(`${r.flipped} icon${r.flipped === 1 ? '' : 's'} flipped`);
+  if (r.swapped) parts.push(`${r.swapped} swapped to RTL variant`);
+  if (r.failed) parts.push(`${r.failed} icon${r.failed === 1 ? '' : 's'} not changeable`);
+  return parts.join(', ');
+}
@@ -0,0 +1,169 @@
+/**
+ * scheduler.ts – Global request scheduler for provider calls
+ *
+ * Every translation and rewrite request in the UI iframe goes through
+ * scheduleRequest(), so the whole plugin respects one concurrency limit
+ * no matter how many languages or chunks are in flight.
+ *
+ *   429             → every queued request pauses until the provider's
+ *                     Retry-After / x-ratelimit-reset-* time, then retries
+ *   5xx             → this request retries with exponential back-off + jitter
+ *   quota exhausted → a successful response whose x-ratelimit-remaining-*
+ *                     header is 0 pauses the queue until the reset time
+ *
+ * Listeners registered with onSchedulerStatus() are told whenever the
+ * queue changes, so the UI can show a "waiting for rate limit" state.
+ */
+import { callOpenAI, OpenAIRequestOptions, OpenAIResponse } from './openai';
+
+export interface SchedulerStatus {
+  /** Requests currently sent to the provider */
+  active: number;
+  /** Requests waiting for a free slot */
+  queued: number;
+  /** Epoch ms until which requests are held back for a rate limit (0 = not waiting) */
+  waitUntil: number;
+}
+
+/** Retries after the first attempt, for 429s and server errors. */
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60000;
+
+let concurrency = 3;
+let active = 0;
+let waitUntil = 0;
+const queue: (() => void)[] = [];
+const listeners = new Set<(status: SchedulerStatus) => void>();
+
+// ────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────
+
+export function setConcurrency(n: number) {
+  concurrency = Math.max(1, Math.floor(n) || 1);
+  pump();
+}
+
+/** Subscribe to queue changes. Returns an unsubscribe function. */
+export function onSchedulerStatus(listener: (status: SchedulerStatus) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function schedulerStatus(): SchedulerStatus {
+  return { active, queued: queue.length, waitUntil: waitUntil > Date.now() ? waitUntil : 0 };
+}
+
+/**
+ * Send a chat-completions request once a slot is free and no rate-limit
+ * pause is active. Retries 429s and 5xx responses; any other result
+ * (including the last failed attempt) is returned as is.
+ */
+export async function scheduleRequest(opts: OpenAIRequestOptions): Promise<OpenAIResponse> {
+  const { signal } = opts;
+  for (let attempt = 0; ; attempt++) {
+    if (!(await acquire(signal))) return { ok: false, error: 'Cancelled.' };
+
+    let response: OpenAIResponse;
+    try {
+      await waitForRateLimit(signal);
+      if (signal?.aborted) return { ok: false, error: 'Cancelled.' };
+      response = await callOpenAI(opts);
+    } finally {
+      release();
+    }
+
+    const backoff = backoffDelay(attempt);
+    if (response.status === 429) {
+      // The whole queue waits — other requests would hit the same limit
+      pauseFor(response.retryAfterMs ?? backoff);
+    } else if (response.retryAfterMs !== undefined) {
+      pauseFor(response.retryAfterMs);
+    }
+
+    const retryable = response.status === 429 || (response.status !== undefined && response.status >= 500);
+    if (!retryable || attempt >= MAX_RETRIES || signal?.aborted) return response;
+    if (response.status !== 429) await sleep(response.retryAfterMs ?? backoff, signal);
+  }
+}
+
+// ────────────────────────────────────────────
+// Slots
+// ────────────────────────────────────────────
+function notify() {
+  const status = schedulerStatus();
+  for (const listener of listeners) listener(status);
+}
+
+function pump() {
+  while (active < concurrency && queue.length > 0) {
+    active++;
+    queue.shift()!();
+  }
+  notify();
+}
+
+/** Wait for a free slot. Resolves false when cancelled while queued. */
+function acquire(signal?: AbortSignal): Promise<boolean> {
+  if (signal?.aborted) return Promise.resolve(false);
+  return new Promise(resolve => {
+    const start = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    };
+    const onAbort = () => {
+      const i = queue.indexOf(start);
+      if (i !== -1) queue.splice(i, 1);
+      notify();
+      resolve(false);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(start);
+    pump();
+  });
+}
+
+function release() {
+  active--;
+  pump();
+}
+
+// ────────────────────────────────────────────
+// Rate-limit pause and back-off
+// ────────────────────────────────────────────
+function pauseFor(ms: number) {
+  const until = Date.now() + Math.min(ms, MAX_DELAY_MS);
+  if (until > waitUntil) {
+    waitUntil = until;
+    notify();
+  }
+}
+
+async function waitForRateLimit(signal?: AbortSignal) {
+  while (waitUntil > Date.now() && !signal?.aborted) {
+    await sleep(waitUntil - Date.now(), signal);
+  }
+  if (waitUntil !== 0 && waitUntil <= Date.now()) {
+    waitUntil = 0;
+    notify();
+  }
+}
+
+/** Exponential back-off with jitter: 1s, 2s, 4s… (capped), each scaled by 0.5–1. */
+function backoffDelay(attempt: number): number {
+  const base = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(base * (0.5 + Math.random() / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, Math.max(0, ms));
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -1,18 +1,83 @@
 /**
  * translate.ts – Translation payload builder, batching, and retries
  *
- * Runs in the UI iframe alongside openai.ts.
+ * Runs in the UI iframe alongside openai.ts. Every request goes through
+ * the global scheduler (scheduler.ts), which handles rate limits and
+ * server-error back-off. When a model still fails, chunks move down the
+ * fallback chain (settings.fallbackModels).
  */
-import { callOpenAI, OpenAIResponse } from './openai';
-import { TextEntry, PluginSettings } from './types';
+import { JsonSchemaFormat, OpenAIResponse } from './openai';
+import { scheduleRequest } from './scheduler';
+import { connectionFor, getProvider, modelChain, withModel } from './provider';
+import { ModelRef, TextEntry, PluginSettings, TokenUsage } from './types';
+import { glossaryForBatch } from './glossary';
+import { findMismatches, validateTranslation } from './validate';
+import { chunkEntries } from './chunk';
+import { addUsage, emptyUsage, responseUsage } from './cost';
 
 // ── System prompt (kept terse – token-efficient) ──
 const SYSTEM_PROMPT =
   'You are a professional UI translator. You MUST respond with valid json only — no markdown, no explanation, no prose. Output a single json object mapping each id to its translated string.';
 
+// ────────────────────────────────────────────
+// Response schema
+// ────────────────────────────────────────────
+
+/** Strict structured outputs allow at most this many object properties. */
+const MAX_SCHEMA_PROPERTIES = 5000;
+
+/**
+ * A json_schema for one request: exactly the given ids, each a required
+ * string, nothing else. Undefined when the provider/model has no
+ * structured outputs, in which case openai.ts sends json_object.
+ */
+export function responseSchema(ids: string[], settings: PluginSettings): JsonSchemaFormat | undefined {
+  if (ids.length > MAX_SCHEMA_PROPERTIES) return undefined;
+  if (!getProvider(settings).supportsJsonSchema(settings, settings.model)) return undefined;
+  const properties: Record<string, { type: 'string' }> = {};
+  for (const id of ids) properties[id] = { type: 'string' };
+  return {
+    name: 'translations',
+    schema: { type: 'object', properties, required: ids, additionalProperties: false },
+  };
+}
+
 // ────────────────────────────────────────────
 // Prompt builder
 // ────────────────────────────────────────────
+
+/** The text sent to the model: inline markup for mixed-style text, else plain characters. */
+export function sourceText(entry: TextEntry): string {
+  return entry.markup ?? entry.characters;
+}
+
+/**
+ * The rule fields sent with every translation request for one language.
+ * Also used as part of the translation-memory key, so two runs only share
+ * cached strings when they were produced under the same rules. The memory
+ * passes the entries being keyed, which adds the glossary targets that
+ * apply to them (the prompt sends those separately).
+ */
+export function translationRules(settings: PluginSettings, langCode: string, entries?: TextEntry[]) {
+  const style = settings.languageStyles[langCode] || {};
+  const instructions = settings.customInstructions.trim();
+  const glossary = entries ? glossaryForBatch(entries, langCode, settings.glossary) : {};
+  return {
+    keepShort: settings.keepShort,
+    maxExpansionRatio: settings.maxExpansionRatio,
+    tone: style.tone || settings.tone,
+    formality: style.formality || settings.formality,
+    preserveLineBreaks: settings.preserveLineBreaks,
+    preservePlaceholders: settings.preservePlaceholders,
+    keepWesternNumerals: settings.keepWesternNumerals,
+    keepPunctuationStyle: settings.keepPunctuationStyle,
+    preserveTerms: settings.preserveTerms,
+    // Only present when set, so existing memory keys stay valid
+    ...(instructions ? { customInstructions: instructions } : {}),
+    ...(Object.keys(glossary).length > 0 ? { glossary } : {}),
+  };
+}
+
 export function buildTranslationPrompt(
   targetName: string,
   targetCode: string,
@@ -22,24 +87,19 @@ export function buildTranslationPrompt(
 ): string {
   const strings: Record<string, { text: string; context: string }> = {};
   for (const e of entries) {
-    strings[e.id] = { text: e.characters, context: e.nodeName };
+    strings[e.id] = { text: sourceText(e), context: e.nodeName };
   }
 
+  // Only the glossary terms that actually occur in this batch
+  const glossary = glossaryForBatch(entries, targetCode, settings.glossary);
+  const hasGlossary = Object.keys(glossary).length > 0;
+
   const payload = {
     sourceLanguage: 'auto',
     targetLanguage: `${targetName} (${targetCode})`,
     isRTL,
-    rules: {
-      keepShort: settings.keepShort,
-      maxExpansionRatio: settings.maxExpansionRatio,
-      tone: settings.tone,
-      formality: settings.formality,
-      preserveLineBreaks: settings.preserveLineBreaks,
-      preservePlaceholders: settings.preservePlaceholders,
-      keepWesternNumerals: settings.keepWesternNumerals,
-      keepPunctuationStyle: settings.keepPunctuationStyle,
-      preserveTerms: settings.preserveTerms,
-    },
+    rules: translationRules(settings, targetCode),
+    ...(hasGlossary ? { glossary } : {}),
     strings,
   };
 
@@ -47,7 +107,7 @@ export function buildTranslationPrompt(
     'Translate the following UI strings and return the result as json.',
     '',
     'Input:',
-    JSON.stringify(payload, null, 2),
+    JSON.stringify(payload),
     '',
     'Expected output format (json):',
     '{ "<id>": "translated text", ... }',
@@ -55,11 +115,14 @@ export function buildTranslationPrompt(
     'Rules:',
     '- Respond with json only — no markdown fences, no explanation.',
     '- Do not translate preserveTerms.',
+    ...(hasGlossary ? ['- Translate every glossary term exactly as given (source term → required translation).'] : []),
     '- Keep placeholders exactly unchanged: {name}, {{name}}, %s, %d, URLs, {0}, etc.',
+    '- Keep numbered inline tags like <1>…</1> around the matching words. Never add, drop, or renumber tags.',
     '- If keepShort is true and expansion exceeds maxExpansionRatio, shorten while keeping meaning.',
     '- Keep Western numerals if keepWesternNumerals is true.',
     '- Preserve punctuation style if keepPunctuationStyle is true.',
     '- Preserve line breaks if preserveLineBreaks is true.',
+    ...(settings.customInstructions.trim() ? ['- Follow the customInstructions rule.'] : []),
   ].join('\n');
 }
 
@@ -69,11 +132,22 @@ export function buildTranslationPrompt(
 export interface TranslateResult {
   translations: Record<string, string> | null;
   error: string | null;
+  /** Tokens reported by the provider across every request made, retries included */
+  usage?: TokenUsage;
+  /** Models whose output made it into `translations`, in fallback-chain order */
+  models?: ModelRef[];
 }
 
 /**
  * Translate all text entries for a single target language.
- * Retries on transient errors (rate limit, JSON parse).
+ *
+ * Entries are split into chunks under settings.chunkCharBudget (see
+ * chunk.ts) and up to settings.chunkConcurrency chunks run at once. Each
+ * chunk retries on its own; when some chunks still fail, the others are
+ * kept and the missing strings are reported by QA. `onChunk` is called
+ * as each chunk starts (1-based index). The result's usage covers every
+ * request, including failed ones, and `models` lists the models of the
+ * fallback chain that actually answered.
  */
 export async function translateBatch(
   langName: string,
@@ -83,132 +157,257 @@ export async function translateBatch(
   settings: PluginSettings,
   maxRetries: number = 2,
   signal?: AbortSignal,
+  onChunk?: (index: number, total: number) => void,
 ): Promise<TranslateResult> {
-  const prompt = buildTranslationPrompt(langName, langCode, isRTL, entries, settings);
-  let lastError = '';
+  const usage = emptyUsage();
+  const chunks = chunkEntries(entries, settings.chunkCharBudget);
+  if (chunks.length <= 1) {
+    const result = await translateChunk(langName, langCode, isRTL, entries, settings, maxRetries, usage, signal);
+    return { ...result, usage };
+  }
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    // Honour cancellation
-    if (signal?.aborted) return { translations: null, error: 'Cancelled.' };
-
-    // On retries, add an extra strictness note
-    const extra =
-      attempt > 0
-        ? '\n\nIMPORTANT: Return ONLY valid JSON. No markdown fences, no explanation.'
-        : '';
-
-    const response: OpenAIResponse = await callOpenAI({
-      apiKey: settings.apiKey,
-      model: settings.model,
-      systemPrompt: SYSTEM_PROMPT + extra,
-      userPrompt: prompt,
-      temperature: 0.2,
-      signal,
-    });
-
-    if (!response.ok) {
-      lastError = response.error || 'Unknown error';
-      // Hard-fail on auth error
-      if (response.status === 401) return { translations: null, error: lastError };
-      // Back-off on rate limit
-      if (response.status === 429) {
-        await delay(2000 * (attempt + 1));
-        continue;
-      }
-      continue;
+  const results: TranslateResult[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length && !signal?.aborted) {
+      const i = next++;
+      onChunk?.(i + 1, chunks.length);
+      results[i] = await translateChunk(langName, langCode, isRTL, chunks[i], settings, maxRetries, usage, signal);
     }
+  };
+  const workers = Math.min(Math.max(1, settings.chunkConcurrency), chunks.length);
+  await Promise.all(Array.from({ length: workers }, worker));
 
-    // Validate shape
-    const data = response.data;
-    if (!data || typeof data !== 'object') {
-      lastError = 'Invalid response format from OpenAI.';
-      continue;
-    }
+  if (signal?.aborted) return { translations: null, error: 'Cancelled.', usage };
 
-    // Extract translations, tolerating extra keys
-    const translations: Record<string, string> = {};
-    let valid = 0;
-    for (const entry of entries) {
-      const val = (data as Record<string, unknown>)[entry.id];
-      if (typeof val === 'string') {
-        translations[entry.id] = val;
-        valid++;
-      }
+  const translations: Record<string, string> = {};
+  const used: ModelRef[] = [];
+  let succeeded = 0;
+  let lastError = '';
+  for (const r of results) {
+    if (r.translations) {
+      Object.assign(translations, r.translations);
+      used.push(...(r.models || []));
+      succeeded++;
+    } else {
+      lastError = r.error || lastError;
     }
+  }
+  if (succeeded === 0) return { translations: null, error: lastError || 'Unknown error', usage };
+  const models = modelChain(settings).filter(ref => used.some(u => sameModel(u, ref)));
+  return { translations, error: null, usage, models };
+}
+
+function sameModel(a: ModelRef, b: ModelRef): boolean {
+  return a.provider === b.provider && a.model === b.model;
+}
 
-    if (valid === 0) {
-      lastError = 'No valid translations in response.';
+/**
+ * Translate one chunk. Walks the model chain: each model gets up to
+ * `maxRetries` extra attempts for malformed JSON, while server errors (the
+ * scheduler has already retried those), timeouts and other failures move
+ * straight on to the next model. The last model in the chain keeps
+ * retrying on any failure. Once a model answers, entries it skipped and
+ * entries whose placeholders or markup did not survive are re-requested
+ * from that same model.
+ */
+async function translateChunk(
+  langName: string,
+  langCode: string,
+  isRTL: boolean,
+  entries: TextEntry[],
+  settings: PluginSettings,
+  maxRetries: number,
+  usage: TokenUsage,
+  signal?: AbortSignal,
+): Promise<TranslateResult> {
+  const prompt = buildTranslationPrompt(langName, langCode, isRTL, entries, settings);
+  const chain = modelChain(settings);
+  let lastError = chain.length === 0 ? 'Choose a model first.' : '';
+
+  for (let step = 0; step < chain.length; step++) {
+    const ref = chain[step];
+    const modelSettings = withModel(settings, ref);
+    const isLast = step === chain.length - 1;
+
+    // A fallback on another provider may not be configured
+    const problem = getProvider(modelSettings).validate(modelSettings);
+    if (problem) {
+      lastError = problem;
       continue;
     }
 
-    return { translations, error: null };
+    const jsonSchema = responseSchema(entries.map(e => e.id), modelSettings);
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      // Honour cancellation
+      if (signal?.aborted) return { translations: null, error: 'Cancelled.' };
+
+      // On retries, add an extra strictness note
+      const extra =
+        attempt > 0
+          ? '\n\nIMPORTANT: Return ONLY valid JSON. No markdown fences, no explanation.'
+          : '';
+
+      const response: OpenAIResponse = await scheduleRequest({
+        connection: connectionFor(modelSettings),
+        model: ref.model,
+        systemPrompt: SYSTEM_PROMPT + extra,
+        userPrompt: prompt,
+        temperature: 0.2,
+        jsonSchema,
+        signal,
+      });
+      addUsage(usage, responseUsage(ref.model, response.usage));
+
+      if (!response.ok) {
+        lastError = response.error || 'Unknown error';
+        // A fallback with a bad key just drops out of the chain
+        if (response.status === 401 && step > 0) break;
+        // Hard-fail on the main model's auth error, and on rate limits the scheduler already waited out
+        if (response.status === 401 || response.status === 429) return { translations: null, error: lastError };
+        // Malformed output is worth another try; anything else is the model's or server's problem
+        if (response.invalidJson || isLast) continue;
+        break;
+      }
+
+      // Validate shape
+      const data = response.data;
+      if (!data || typeof data !== 'object') {
+        lastError = 'Invalid response format from the model.';
+        continue;
+      }
+
+      // Extract translations, tolerating extra keys
+      const translations: Record<string, string> = {};
+      let valid = 0;
+      for (const entry of entries) {
+        const val = (data as Record<string, unknown>)[entry.id];
+        if (typeof val === 'string') {
+          translations[entry.id] = val;
+          valid++;
+        }
+      }
+
+      if (valid === 0) {
+        lastError = 'No valid translations in response.';
+        continue;
+      }
+
+      const complete = await recoverMissing(langName, langCode, isRTL, entries, translations, modelSettings, usage, signal);
+      const repaired = await repairMismatches(langName, langCode, isRTL, entries, complete, modelSettings, usage, signal);
+      return { translations: repaired, error: null, models: [ref] };
+    }
   }
 
   return { translations: null, error: lastError };
 }
 
 // ────────────────────────────────────────────
-// Rewrite shorter – called when QA detects layout issues
+// Follow-up requests
 // ────────────────────────────────────────────
 
-/**
- * Takes problematic translations and asks OpenAI to rewrite them shorter.
- * `entries` should only contain the items that have layout issues.
- */
-export async function shortenTranslations(
-  langName: string,
-  entries: { id: string; original: string; current: string }[],
+/** One request for a subset of entries; returns the string values it got back (null on failure). */
+async function requestFollowUp(
+  entries: TextEntry[],
+  userPrompt: string,
   settings: PluginSettings,
+  usage: TokenUsage,
   signal?: AbortSignal,
-): Promise<TranslateResult> {
-  if (entries.length === 0) return { translations: {}, error: null };
+): Promise<Record<string, string> | null> {
+  const response = await scheduleRequest({
+    connection: connectionFor(settings),
+    model: settings.model,
+    systemPrompt: SYSTEM_PROMPT,
+    userPrompt,
+    temperature: 0.2,
+    jsonSchema: responseSchema(entries.map(e => e.id), settings),
+    signal,
+  });
+  addUsage(usage, responseUsage(settings.model, response.usage));
+
+  const data = response.data;
+  if (!response.ok || !data || typeof data !== 'object') return null;
 
-  const payload: Record<string, { original: string; current: string }> = {};
+  const result: Record<string, string> = {};
   for (const e of entries) {
-    payload[e.id] = { original: e.original, current: e.current };
+    const val = (data as Record<string, unknown>)[e.id];
+    if (typeof val === 'string') result[e.id] = val;
   }
+  return result;
+}
 
-  const systemPrompt =
-    'You are a professional UI translator. Rewrite translations to be as short as possible while keeping the same meaning. Respond with valid json only.';
+/**
+ * Re-request the entries the model left out (or answered with a
+ * non-string) in one smaller call. Whatever is still missing afterwards
+ * is reported by QA as a missing translation.
+ */
+async function recoverMissing(
+  langName: string,
+  langCode: string,
+  isRTL: boolean,
+  entries: TextEntry[],
+  translations: Record<string, string>,
+  settings: PluginSettings,
+  usage: TokenUsage,
+  signal?: AbortSignal,
+): Promise<Record<string, string>> {
+  const missing = entries.filter(e => !(e.id in translations));
+  if (missing.length === 0 || signal?.aborted) return translations;
 
   const userPrompt = [
-    `These ${langName} translations are too long for their UI containers.`,
-    'Rewrite each one SHORTER while keeping the exact same meaning.',
-    'Return json only: { "<id>": "shorter text", ... }',
+    buildTranslationPrompt(langName, langCode, isRTL, missing, settings),
     '',
-    JSON.stringify(payload, null, 2),
+    'IMPORTANT: Return a translated string for every id in the input.',
   ].join('\n');
 
-  const response = await callOpenAI({
-    apiKey: settings.apiKey,
-    model: settings.model,
-    systemPrompt,
-    userPrompt,
-    temperature: 0.3,
-    signal,
-  });
+  const recovered = await requestFollowUp(missing, userPrompt, settings, usage, signal);
+  return recovered ? { ...translations, ...recovered } : translations;
+}
 
-  if (!response.ok) {
-    return { translations: null, error: response.error || 'Failed to shorten' };
-  }
+/**
+ * Send one follow-up request for the entries whose translation lost or
+ * invented placeholders, tags, URLs, emojis or line breaks. A repaired
+ * string only replaces the original when it validates; whatever is still
+ * broken afterwards is flagged by QA as a placeholder mismatch.
+ */
+async function repairMismatches(
+  langName: string,
+  langCode: string,
+  isRTL: boolean,
+  entries: TextEntry[],
+  translations: Record<string, string>,
+  settings: PluginSettings,
+  usage: TokenUsage,
+  signal?: AbortSignal,
+): Promise<Record<string, string>> {
+  const sources: Record<string, string> = {};
+  for (const e of entries) sources[e.id] = sourceText(e);
 
-  const data = response.data;
-  if (!data || typeof data !== 'object') {
-    return { translations: null, error: 'Invalid response' };
-  }
+  const mismatches = findMismatches(sources, translations, settings);
+  const broken = entries.filter(e => mismatches[e.id]);
+  if (broken.length === 0 || signal?.aborted) return translations;
 
-  const result: Record<string, string> = {};
-  for (const entry of entries) {
-    const val = (data as Record<string, unknown>)[entry.id];
-    if (typeof val === 'string') {
-      result[entry.id] = val;
-    }
+  const rejected: Record<string, { previous: string; problems: string[] }> = {};
+  for (const e of broken) {
+    rejected[e.id] = { previous: translations[e.id], problems: mismatches[e.id] };
   }
 
-  return { translations: result, error: null };
-}
+  const userPrompt = [
+    buildTranslationPrompt(langName, langCode, isRTL, broken, settings),
+    '',
+    'Your previous translations of these strings were rejected:',
+    JSON.stringify(rejected, null, 2),
+    '',
+    'Translate them again. Every placeholder, tag, URL, emoji and line break in the source must appear unchanged in the translation.',
+  ].join('\n');
+
+  const retried = await requestFollowUp(broken, userPrompt, settings, usage, signal);
+  if (!retried) return translations;
 
-// ── Util ──
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+  const repaired = { ...translations };
+  for (const [id, val] of Object.entries(retried)) {
+    if (validateTranslation(sources[id], val, settings).length === 0) repaired[id] = val;
+  }
+  return repaired;
 }
@@ -13,17 +13,94 @@ export interface Language {
   name: string;        // English name
   nativeName: string;  // Native script
   isRTL: boolean;
+  /** Set on virtual pseudo-locales, which are generated locally instead of translated */
+  pseudo?: PseudoKind;
 }
 
-export type LanguagePreset = 'common' | 'eu' | 'rtl' | 'all';
+/** accented: Ĥéļļö with expansion · rtl: fake right-to-left script · cjk: full-width glyphs */
+export type PseudoKind = 'accented' | 'rtl' | 'cjk';
+
+export type LanguagePreset = 'common' | 'eu' | 'rtl' | 'all' | 'pseudo';
+
+// ────────────────────────────────────────────
+// Translation provider
+// ────────────────────────────────────────────
+export type ProviderId = 'openai' | 'openai-compatible' | 'azure';
+
+// ────────────────────────────────────────────
+// Glossary
+// ────────────────────────────────────────────
+
+/** A source term with the translation it must get in each language. */
+export interface GlossaryEntry {
+  term: string;
+  /** Required translation, keyed by language code */
+  translations: Record<string, string>;
+}
+
+// ────────────────────────────────────────────
+// Style rules
+// ────────────────────────────────────────────
+
+/** Tone / formality override for one target language. */
+export interface LanguageStyle {
+  tone?: PluginSettings['tone'];
+  formality?: PluginSettings['formality'];
+}
+
+/**
+ * Team-shared translation rules stored in the Figma file via
+ * setSharedPluginData. Overrides each designer's personal settings for
+ * these fields. Never contains provider credentials.
+ */
+export interface DocumentProfile {
+  glossary: GlossaryEntry[];
+  preserveTerms: string[];
+  tone: PluginSettings['tone'];
+  formality: PluginSettings['formality'];
+  languageStyles: Record<string, LanguageStyle>;
+  customInstructions: string;
+  updatedAt: number;
+  /** Name of the Figma user who last published the profile */
+  updatedBy: string;
+}
+
+// ────────────────────────────────────────────
+// Export
+// ────────────────────────────────────────────
+export type ExportFormat = 'xliff' | 'json-flat' | 'json-nested' | 'csv' | 'android' | 'ios';
+
+/** Export keys come from slugified layer names or from TextEntry IDs. */
+export type ExportKeyMode = 'layer' | 'id';
 
 // ────────────────────────────────────────────
 // Settings (persisted via figma.clientStorage)
 // ────────────────────────────────────────────
+/** A model on a specific provider — fallback chains may cross providers. */
+export interface ModelRef {
+  provider: ProviderId;
+  /** Model name (Azure: deployment name) */
+  model: string;
+}
+
 export interface PluginSettings {
-  // OpenAI
+  // Provider
+  provider: ProviderId;
+  /** Key of the selected provider */
   apiKey: string;
+  /** Each provider's own key, so a fallback never authenticates with another provider's */
+  apiKeys: Record<ProviderId, string>;
+  /** Model name (Azure: deployment name) */
   model: string;
+  /** OpenAI-compatible base URL, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Azure resource endpoint, e.g. https://my-resource.openai.azure.com */
+  azureEndpoint: string;
+  azureApiVersion: string;
+  /** Models offered for each provider */
+  providerModels: Record<ProviderId, string[]>;
+  /** Tried in order when the main model fails (server errors, timeouts, invalid JSON) */
+  fallbackModels: ModelRef[];
 
   // Translation rules
   tone: 'neutral' | 'friendly' | 'formal';
@@ -32,6 +109,14 @@ export interface PluginSettings {
   keepShort: boolean;
   maxExpansionRatio: number;
   preserveTerms: string[];
+  /** Strings that may stay identical to the source without a QA warning (brand names) */
+  untranslatedAllowList: string[];
+  /** Terms that must be translated a specific way per language */
+  glossary: GlossaryEntry[];
+  /** Tone / formality overrides, keyed by language code */
+  languageStyles: Record<string, LanguageStyle>;
+  /** Extra instructions added to every translation request */
+  customInstructions: string;
   preserveLineBreaks: boolean;
   preservePlaceholders: boolean;
   skipCodeLike: boolean;
@@ -42,24 +127,84 @@ export interface PluginSettings {
   wrapColumns: number;
   showLabels: boolean;
   labelFormat: 'iso' | 'english' | 'native';
+  /** Rewrite → re-measure rounds per string when auto-fitting to the container */
+  autoFitAttempts: number;
+  /** Non-AI fit strategies to try, in this order */
+  fitStrategies: FitStrategy[];
+  /** Smallest font size (px) the fit action may use */
+  fitMinFontSize: number;
+  /** Tightest letter spacing, in percent */
+  fitMinLetterSpacing: number;
+  /** Tightest line height, in percent of the font size */
+  fitMinLineHeight: number;
 
   // RTL
   autoRTL: boolean;
   setDirectionRTL: boolean;
   mirrorLayout: boolean;
+  /** Layer name globs (e.g. "*logo*") excluded from mirroring */
+  rtlOptOutPatterns: string[];
+  /** Flip directional icons (or swap to their RTL variant) */
+  flipIcons: boolean;
+  /** Layer name globs of directional icons (e.g. "*arrow*") */
+  flipIconPatterns: string[];
   keepWesternNumerals: boolean;
   keepPunctuationStyle: boolean;
 
   // Text fitting
   allowFontFallback: boolean;
 
+  // Translation memory
+  useTranslationMemory: boolean;
+
+  // Usage
+  /** Monthly soft budget in USD; warn before a run would exceed it (0 = off) */
+  monthlyBudget: number;
+  /** Tokens and cost recorded in the current calendar month */
+  monthlyUsage: MonthlyUsage;
+
+  // Requests
+  /** Provider requests in flight at once, across all languages and chunks */
+  requestConcurrency: number;
+  /** Max prompt characters per request (~4 per token); larger runs are split into chunks */
+  chunkCharBudget: number;
+  /** Chunks of one language translated at the same time */
+  chunkConcurrency: number;
+
+  // Pseudo-localisation
+  /** Extra length added to pseudo-localised text, in percent of the source */
+  pseudoExpansion: number;
+  /** Wrap pseudo-localised strings in [ ] so truncation is easy to spot */
+  pseudoBrackets: boolean;
+
+  // Export
+  /** Language code of the source design, written to XLIFF headers */
+  sourceLanguage: string;
+  exportFormat: ExportFormat;
+  exportKeyMode: ExportKeyMode;
+
   // Persisted language selections
   selectedLanguages: string[];
 }
 
 export const DEFAULT_SETTINGS: PluginSettings = {
+  provider: 'openai',
   apiKey: '',
+  apiKeys: {
+    'openai': '',
+    'openai-compatible': '',
+    'azure': '',
+  },
   model: 'gpt-4o-mini',
+  baseUrl: 'http://localhost:11434/v1',
+  azureEndpoint: '',
+  azureApiVersion: '2024-06-01',
+  providerModels: {
+    'openai': ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+    'openai-compatible': ['llama3.1', 'qwen2.5'],
+    'azure': [],
+  },
+  fallbackModels: [],
 
   tone: 'neutral',
   formality: 'auto',
@@ -67,6 +212,10 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   keepShort: false,
   maxExpansionRatio: 1.6,
   preserveTerms: [],
+  untranslatedAllowList: [],
+  glossary: [],
+  languageStyles: {},
+  customInstructions: '',
   preserveLineBreaks: true,
   preservePlaceholders: true,
   skipCodeLike: true,
@@ -76,21 +225,56 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   wrapColumns: 3,
   showLabels: true,
   labelFormat: 'english',
+  autoFitAttempts: 3,
+  fitStrategies: ['font-size', 'letter-spacing', 'line-height', 'grow-container'],
+  fitMinFontSize: 10,
+  fitMinLetterSpacing: -3,
+  fitMinLineHeight: 100,
 
   autoRTL: true,
   setDirectionRTL: true,
   mirrorLayout: false,
+  rtlOptOutPatterns: ['*[ltr]*', '*logo*', '*media*', '*video*', '*player*'],
+  flipIcons: true,
+  flipIconPatterns: ['*arrow*', '*chevron*', '*caret*', 'icon/back', 'icon/forward', '*progress*'],
   keepWesternNumerals: true,
   keepPunctuationStyle: true,
 
   allowFontFallback: true,
 
+  useTranslationMemory: true,
+
+  monthlyBudget: 0,
+  monthlyUsage: { month: '', inputTokens: 0, outputTokens: 0, cost: 0 },
+
+  requestConcurrency: 3,
+  chunkCharBudget: 12000,
+  chunkConcurrency: 2,
+
+  pseudoExpansion: 35,
+  pseudoBrackets: true,
+
+  sourceLanguage: 'en',
+  exportFormat: 'xliff',
+  exportKeyMode: 'layer',
+
   selectedLanguages: [],
 };
 
 // ────────────────────────────────────────────
 // Scan result
 // ────────────────────────────────────────────
+export type CodeLikeKind = 'code' | 'color' | 'url' | 'version' | 'placeholder';
+
+/** Character styles re-applied to a tagged range after translation. */
+export interface TextStyleRun {
+  fontName: FontName;
+  fontSize: number;
+  fills: Paint[];
+  textDecoration: TextDecoration;
+  hyperlink: HyperlinkTarget | null;
+}
+
 export interface TextEntry {
   /** Stable key for mapping (e.g. "t0", "t1") */
   id: string;
@@ -116,19 +300,57 @@ export interface TextEntry {
   lineHeight: number;
   /** "family:style" (first range if mixed) */
   fontName: string;
+  /** Classifier verdict when the text looks like code, a URL, a colour, etc. */
+  codeLike: CodeLikeKind | null;
+  /** Excluded from translation by the classifier (skipCodeLike on) */
+  skipped: boolean;
+  /** ID of the selected top-level node (source frame) this text belongs to */
+  frameId: string;
+  /** Mixed-style text only: characters with numbered inline tags (see richtext.ts) */
+  markup?: string;
+  /** Mixed-style text only: style per tag, index 0 = base style */
+  styleRuns?: TextStyleRun[];
+}
+
+/** One of the selected top-level nodes. */
+export interface SourceFrame {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
 }
 
 export interface ScanResult {
+  /** Display name: the node name, or "N frames" for a multi-selection */
   nodeName: string;
+  /** Node type, or "MULTIPLE" for a multi-selection */
   nodeType: string;
+  /** ID of the first selected node */
   nodeId: string;
+  /** Every selected top-level node, in selection order */
+  frames: SourceFrame[];
   totalTextNodes: number;
   translatableNodes: number;
   skippedEmpty: number;
   skippedLocked: number;
+  /** Entries the classifier marked as code-like (still listed in textEntries) */
+  skippedCodeLike: number;
   textEntries: TextEntry[];
 }
 
+// ────────────────────────────────────────────
+// Translation memory (persisted via figma.clientStorage)
+// ────────────────────────────────────────────
+export interface MemoryEntry {
+  /** Source text as sent to the model */
+  source: string;
+  langCode: string;
+  translation: string;
+  /** Fingerprint of the rule fields the translation was produced under */
+  rulesKey: string;
+  /** Epoch ms of the last time this entry was written or reused */
+  updatedAt: number;
+}
+
 // ────────────────────────────────────────────
 // QA
 // ────────────────────────────────────────────
@@ -137,7 +359,24 @@ export type Severity = 'green' | 'amber' | 'red';
 export type IssueType =
   | 'text-overflow'
   | 'container-overflow'
-  | 'font-load';
+  | 'font-load'
+  | 'glossary'
+  | 'placeholder-mismatch'
+  | 'missing-translation'
+  | 'untranslated';
+
+/**
+ * Space measured for a layout issue, along the axis that overflows
+ * (height for wraps and fixed boxes, width or height for containers).
+ */
+export interface FitMeasurement {
+  /** Visible characters currently in the clone */
+  chars: number;
+  /** Space the text may take, in px */
+  available: number;
+  /** Space the text takes now, in px */
+  needed: number;
+}
 
 export interface QAIssue {
   severity: Severity;
@@ -145,6 +384,60 @@ export interface QAIssue {
   nodeId: string;
   nodeName: string;
   message: string;
+  /** Source frame the issue belongs to ('' when not tied to a node) */
+  frameId: string;
+  /** Text entry the issue belongs to ('' when not tied to a node) */
+  entryId: string;
+  /** Layout issues only, when the room could be measured: how much space there is, for auto-fit budgets */
+  fit?: FitMeasurement;
+}
+
+/** Non-AI ways to make a flagged clone node fit (see fit.ts). */
+export type FitStrategy = 'font-size' | 'letter-spacing' | 'line-height' | 'grow-container';
+
+/** What the fit action did to one flagged node. */
+export interface FitResult {
+  entryId: string;
+  nodeId: string;
+  nodeName: string;
+  /** The strategy whose step made the node pass QA; null when nothing did (node restored) */
+  strategy: FitStrategy | null;
+  /** Human-readable change, e.g. "16 → 14px" */
+  detail: string;
+}
+
+/** One auto-fit round for one string, kept for review. */
+export interface FitAttempt {
+  /** 1-based round */
+  attempt: number;
+  /** Visible-character budget sent to the model */
+  budget: number;
+  /** The rewritten translation that was applied */
+  text: string;
+  /** True when QA no longer flagged a layout issue afterwards */
+  fits: boolean;
+}
+
+/** Where a version of a translation came from. */
+export type HistorySource = 'translation' | 'memory' | 'import' | 'rewrite' | 'auto-fit' | 'edit' | 'revert';
+
+/** One version of one string's translation; a history lists them oldest first. */
+export interface HistoryVersion {
+  text: string;
+  source: HistorySource;
+  /** Extra detail: the rewrite mode, auto-fit round, or the version a revert restored */
+  label?: string;
+  /** Epoch ms when this version was applied */
+  at: number;
+}
+
+/** Issue counts for one source frame within a language. */
+export interface FrameQASummary {
+  frameId: string;
+  frameName: string;
+  status: Severity;
+  amberIssues: number;
+  redIssues: number;
 }
 
 export interface QAReport {
@@ -156,6 +449,8 @@ export interface QAReport {
   issueEntryIds: string[];
   amberIssues: number;
   redIssues: number;
+  /** Per-source-frame breakdown (one item per selected frame) */
+  frames: FrameQASummary[];
 }
 
 // ────────────────────────────────────────────
@@ -177,6 +472,25 @@ export interface LangProgress {
   status: LangStatus;
   detail?: string;
   qaReport?: QAReport;
+  /** Tokens reported by the provider for this language (translation + rewrites) */
+  usage?: TokenUsage;
+  /** Models that produced this language's translations, main model first */
+  models?: ModelRef[];
+}
+
+// ────────────────────────────────────────────
+// Usage
+// ────────────────────────────────────────────
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** USD at list price; models without a known price add tokens but no cost */
+  cost: number;
+}
+
+export interface MonthlyUsage extends TokenUsage {
+  /** "YYYY-MM" */
+  month: string;
 }
 
 // ────────────────────────────────────────────
@@ -185,12 +499,34 @@ export interface LangProgress {
 export type UIMessage =
   | { type: 'init' }
   | { type: 'scan-selection' }
-  | { type: 'start-generate'; languages: Language[]; settings: PluginSettings }
+  | {
+      type: 'start-generate';
+      languages: Language[];
+      settings: PluginSettings;
+      /** Per-string classifier overrides: node ID → skip */
+      skipOverrides: Record<string, boolean>;
+    }
   | { type: 'translations-ready'; langCode: string; translations: Record<string, string> }
-  | { type: 'translation-error'; langCode: string; error: string }
+  | {
+      type: 'translation-error';
+      langCode: string;
+      error: string;
+      /** Translations that did not need the API (memory, imports); still applied */
+      partial?: Record<string, string>;
+    }
   | { type: 'apply-rewrites'; langCode: string; translations: Record<string, string> }
+  | {
+      type: 'fit-layout';
+      langCode: string;
+      /** Current fit settings, so strategy changes after the run take effect */
+      fit: Pick<PluginSettings, 'fitStrategies' | 'fitMinFontSize' | 'fitMinLetterSpacing' | 'fitMinLineHeight'>;
+    }
   | { type: 'cancel' }
   | { type: 'save-settings'; settings: Partial<PluginSettings> }
+  | { type: 'memory-list' }
+  | { type: 'memory-clear' }
+  | { type: 'profile-publish'; settings: PluginSettings }
+  | { type: 'profile-remove' }
   | { type: 'resize'; width: number; height: number }
   | { type: 'notify'; message: string; error?: boolean };
 
@@ -199,6 +535,7 @@ export type UIMessage =
 // ────────────────────────────────────────────
 export type ControllerMessage =
   | { type: 'init-complete'; settings: PluginSettings }
+  | { type: 'profile-data'; profile: DocumentProfile | null }
   | { type: 'scan-result'; result: ScanResult }
   | { type: 'scan-error'; error: string }
   | {
@@ -207,9 +544,13 @@ export type ControllerMessage =
       langName: string;
       isRTL: boolean;
       textEntries: TextEntry[];
+      /** Translations already found in memory, keyed by entry ID */
+      cached: Record<string, string>;
       settings: PluginSettings;
     }
+  | { type: 'memory-data'; entries: MemoryEntry[] }
   | { type: 'language-progress'; progress: LangProgress }
+  | { type: 'fit-results'; langCode: string; results: FitResult[] }
   | { type: 'all-complete'; reports: QAReport[] }
   | { type: 'error'; error: string }
   | { type: 'cancelled' }
@@ -17,41 +17,157 @@ import {
   UIMessage,
   ControllerMessage,
   ScanResult,
+  SourceFrame,
   TextEntry,
   QAReport,
   LangProgress,
   Language,
+  MemoryEntry,
+  ExportFormat,
+  ExportKeyMode,
+  DocumentProfile,
+  TokenUsage,
+  ModelRef,
+  FitAttempt,
+  FitResult,
+  FitStrategy,
+  HistorySource,
+  HistoryVersion,
 } from './types';
-import { LANGUAGES, PRESETS, getLanguageByCode } from './lang';
-import { translateBatch, shortenTranslations } from './translate';
-import { testApiKey } from './openai';
+import { LANGUAGES, PSEUDO_LANGUAGES, PRESETS, getLanguageByCode, isPseudoLanguage } from './lang';
+import { translateBatch, sourceText } from './translate';
+import { REWRITE_MODES, RewriteMode, rewriteModeLabel, rewriteTranslations, fitBudgets } from './rewrite';
+import { testConnection } from './openai';
+import { PROVIDERS, getProvider } from './provider';
+import { CODE_LIKE_LABELS } from './classify';
+import { EXPORT_FORMATS, exportTranslations, ExportLanguage } from './export';
+import { pseudoTranslateBatch } from './pseudo';
+import { MIN_CHUNK_BUDGET } from './chunk';
+import { groupUnits, fanOut, TranslationUnits } from './units';
+import { setConcurrency, onSchedulerStatus, SchedulerStatus } from './scheduler';
+import {
+  LanguageEstimate,
+  estimateLanguage,
+  emptyUsage,
+  addUsage,
+  monthlyUsageNow,
+  formatTokens,
+  formatCost,
+} from './cost';
+import {
+  IMPORT_ACCEPT,
+  GLOSSARY_ACCEPT,
+  ImportedUnit,
+  parseLocalisationFile,
+  parseGlossaryFile,
+  matchImported,
+} from './import';
+import { mergeGlossary } from './glossary';
+import { applyDocumentProfile } from './profile';
 
 // ────────────────────────────────────────────
 // State
 // ────────────────────────────────────────────
 let settings: PluginSettings = { ...DEFAULT_SETTINGS };
 let scanResult: ScanResult | null = null;
+/**
+ * The translatable entries and frames the current results were generated
+ * from. scanResult follows the canvas selection (clicking a clone rescans),
+ * so everything on the Results tab works from this snapshot instead.
+ */
+let runScan: Pick<ScanResult, 'textEntries' | 'frames'> | null = null;
 let selectedLangCodes: Set<string> = new Set();
 let generating = false;
 let abortController: AbortController | null = null;
 
+/** Per-string classifier overrides from the review list: node ID → skip. */
+const skipOverrides: Record<string, boolean> = {};
+
 /** Per-language progress, keyed by code. */
 const langProgressMap = new Map<string, LangProgress>();
 
-/** Stored translations per language (for rewrite-shorter). */
+/** Stored translations per language (for rewrites and export). */
 const translationsStore = new Map<string, Record<string, string>>();
 
+/** The current file's shared document profile (null when the file has none). */
+let documentProfile: DocumentProfile | null = null;
+
+/** Translation memory entries, as last reported by the controller. */
+let memoryEntries: MemoryEntry[] = [];
+
+/** A language block read from an imported localisation file. */
+interface ImportedSet {
+  filename: string;
+  /** Target language; null until the user picks one */
+  langCode: string | null;
+  units: ImportedUnit[];
+}
+
+/** Imported translations, in the order the files were added (later files win). */
+const importedSets: ImportedSet[] = [];
+
 /** Languages currently being rewritten. */
 const rewritingLangs = new Set<string>();
 
-/** Pending translation requests queued by the controller. */
-const translationQueue: Array<{
+/** Auto-fit rounds per language: entry ID → every attempt, in order. */
+const fitLogs = new Map<string, Map<string, FitAttempt[]>>();
+
+/** Every version of every string per language: entry ID → versions, oldest first. */
+const translationHistory = new Map<string, Map<string, HistoryVersion[]>>();
+
+/** Expanded histories in the inline editor, as "langCode|entryId". */
+const openHistories = new Set<string>();
+
+const HISTORY_SOURCE_LABELS: Record<HistorySource, string> = {
+  translation: 'Translated',
+  memory: 'From memory',
+  import: 'Imported',
+  rewrite: 'Rewrite',
+  'auto-fit': 'Auto-fit',
+  edit: 'Edited by hand',
+  revert: 'Reverted',
+};
+
+/** Strings edited by hand per language; AI rewrites and auto-fit leave them alone. */
+const humanEdited = new Map<string, Set<string>>();
+
+/** Unsaved inline edits per language: entry ID → text in the cell. */
+const editDrafts = new Map<string, Record<string, string>>();
+
+/** Languages whose inline editor is expanded, so it survives re-renders. */
+const openEditors = new Set<string>();
+
+/** What the last fit-layout action did per language. */
+const layoutFits = new Map<string, FitResult[]>();
+
+/** Callers waiting for the QA report that follows their apply-rewrites / fit-layout. */
+const pendingQA = new Map<string, (report: QAReport | undefined) => void>();
+
+/** Fit-layout strategies in the order they are tried: settings toggle and results label. */
+const FIT_STRATEGIES: { id: FitStrategy; toggle: string; label: string }[] = [
+  { id: 'font-size', toggle: 'fit-font-size', label: 'Smaller font' },
+  { id: 'letter-spacing', toggle: 'fit-letter-spacing', label: 'Tighter letter spacing' },
+  { id: 'line-height', toggle: 'fit-line-height', label: 'Tighter line height' },
+  { id: 'grow-container', toggle: 'fit-grow-container', label: 'Grown container' },
+];
+
+/** Tokens used since the plugin was opened. */
+const sessionUsage: TokenUsage = emptyUsage();
+
+/** A translation job for one language, as requested by the controller. */
+interface TranslationRequest {
   langCode: string;
   langName: string;
   isRTL: boolean;
+  /** Entries that still need translating (memory misses). */
   textEntries: TextEntry[];
+  /** Translations already found in memory, keyed by entry ID. */
+  cached: Record<string, string>;
   settings: PluginSettings;
-}> = [];
+}
+
+/** Pending translation requests queued by the controller. */
+const translationQueue: TranslationRequest[] = [];
 let activeTranslations = 0;
 
 // ────────────────────────────────────────────
@@ -96,22 +212,70 @@ document.addEventListener('DOMContentLoaded', () => {
   for (const btn of $$<HTMLButtonElement>('.preset-btn')) {
     btn.addEventListener('click', () => applyPreset(btn.dataset.preset!));
   }
+  const importInput = qid('import-file') as HTMLInputElement;
+  importInput.accept = IMPORT_ACCEPT;
+  qid('btn-import').addEventListener('click', () => importInput.click());
+  importInput.addEventListener('change', async () => {
+    if (importInput.files) await importFiles(Array.from(importInput.files));
+    importInput.value = '';
+  });
 
   // ── Action buttons ──
   qid('btn-generate').addEventListener('click', () => startGeneration());
   qid('btn-cancel').addEventListener('click', cancelGeneration);
   qid('btn-go-translate').addEventListener('click', () => switchTab('translate'));
 
-  // ── Settings tab: OpenAI ──
+  // ── Settings tab: Provider ──
+  qid('provider-select').addEventListener('change', (e: Event) => {
+    // Each provider keeps its own key
+    settings.apiKeys = { ...settings.apiKeys, [settings.provider]: settings.apiKey };
+    settings.provider = (e.target as HTMLSelectElement).value as PluginSettings['provider'];
+    settings.apiKey = settings.apiKeys[settings.provider] || '';
+    (qid('api-key-input') as HTMLInputElement).value = settings.apiKey;
+    // Keep the model valid for the newly selected provider
+    const models = settings.providerModels[settings.provider] || [];
+    if (!models.includes(settings.model)) settings.model = models[0] || '';
+    renderProviderFields();
+    persistSettings();
+  });
+  qid('base-url-input').addEventListener('change', (e: Event) => {
+    settings.baseUrl = (e.target as HTMLInputElement).value.trim();
+    persistSettings();
+  });
+  qid('azure-endpoint-input').addEventListener('change', (e: Event) => {
+    settings.azureEndpoint = (e.target as HTMLInputElement).value.trim();
+    persistSettings();
+  });
+  qid('azure-version-input').addEventListener('change', (e: Event) => {
+    settings.azureApiVersion = (e.target as HTMLInputElement).value.trim() || DEFAULT_SETTINGS.azureApiVersion;
+    persistSettings();
+  });
   qid('api-key-input').addEventListener('change', (e: Event) => {
     settings.apiKey = (e.target as HTMLInputElement).value.trim();
+    settings.apiKeys = { ...settings.apiKeys, [settings.provider]: settings.apiKey };
+    persistSettings();
+  });
+  qid('model-select').addEventListener('change', (e: Event) => {
+    settings.model = (e.target as HTMLSelectElement).value;
     persistSettings();
+    renderEstimate();
   });
-  qid('model-input').addEventListener('change', (e: Event) => {
-    settings.model = (e.target as HTMLInputElement).value.trim() || 'gpt-4o-mini';
+  qid('budget-input').addEventListener('change', (e: Event) => {
+    const val = parseFloat((e.target as HTMLInputElement).value);
+    settings.monthlyBudget = isNaN(val) ? 0 : Math.max(0, val);
     persistSettings();
+    renderBudget();
+    renderEstimate();
   });
   qid('btn-test-key').addEventListener('click', handleTestKey);
+  qid('add-model-btn').addEventListener('click', addProviderModel);
+  qid('model-add-input').addEventListener('keydown', (e: Event) => {
+    if ((e as KeyboardEvent).key === 'Enter') addProviderModel();
+  });
+  qid('add-fallback-btn').addEventListener('click', addFallbackModel);
+  qid('fallback-model-input').addEventListener('keydown', (e: Event) => {
+    if ((e as KeyboardEvent).key === 'Enter') addFallbackModel();
+  });
 
   // ── Settings tab: Translation ──
   qid('tone-select').addEventListener('change', (e: Event) => {
@@ -122,6 +286,15 @@ document.addEventListener('DOMContentLoaded', () => {
     settings.formality = (e.target as HTMLSelectElement).value as PluginSettings['formality'];
     persistSettings();
   });
+  qid('custom-instructions').addEventListener('change', (e: Event) => {
+    settings.customInstructions = (e.target as HTMLTextAreaElement).value.trim();
+    persistSettings();
+  });
+  qid('style-lang-select').innerHTML = LANGUAGES
+    .filter(l => l.code !== 'en')
+    .map(l => `<option value="${l.code}">${esc(l.name)}</option>`)
+    .join('');
+  qid('btn-style-add').addEventListener('click', addLanguageStyle);
   qid('translation-length').addEventListener('change', (e: Event) => {
     const val = (e.target as HTMLSelectElement).value as PluginSettings['translationLength'];
     applyTranslationLength(val);
@@ -129,7 +302,8 @@ document.addEventListener('DOMContentLoaded', () => {
   });
   wireToggle('preserve-line-breaks', 'preserveLineBreaks');
   wireToggle('preserve-placeholders', 'preservePlaceholders');
-  wireToggle('skip-code-like', 'skipCodeLike');
+  // The classifier runs during the scan, so rescan when this changes
+  wireToggle('skip-code-like', 'skipCodeLike', () => send({ type: 'scan-selection' }));
 
   // Preserve terms
   qid('add-term-btn').addEventListener('click', addPreserveTerm);
@@ -137,6 +311,30 @@ document.addEventListener('DOMContentLoaded', () => {
     if ((e as KeyboardEvent).key === 'Enter') addPreserveTerm();
   });
 
+  // Allowed untranslated
+  qid('add-allow-btn').addEventListener('click', addAllowedUntranslated);
+  qid('allow-input').addEventListener('keydown', (e: Event) => {
+    if ((e as KeyboardEvent).key === 'Enter') addAllowedUntranslated();
+  });
+
+  // ── Settings tab: Glossary ──
+  qid('glossary-lang-select').innerHTML = LANGUAGES
+    .filter(l => l.code !== 'en')
+    .map(l => `<option value="${l.code}">${esc(l.name)}</option>`)
+    .join('');
+  qid('btn-glossary-add').addEventListener('click', addGlossaryEntry);
+  qid('glossary-target-input').addEventListener('keydown', (e: Event) => {
+    if ((e as KeyboardEvent).key === 'Enter') addGlossaryEntry();
+  });
+  const glossaryInput = qid('glossary-file') as HTMLInputElement;
+  glossaryInput.accept = GLOSSARY_ACCEPT;
+  qid('btn-glossary-import').addEventListener('click', () => glossaryInput.click());
+  glossaryInput.addEventListener('change', async () => {
+    const file = glossaryInput.files?.[0];
+    glossaryInput.value = '';
+    if (file) await importGlossary(file);
+  });
+
   // ── Settings tab: Layout ──
   for (const btn of $$<HTMLButtonElement>('.layout-btn')) {
     btn.addEventListener('click', () => {
@@ -162,12 +360,126 @@ document.addEventListener('DOMContentLoaded', () => {
   // ── Settings tab: RTL ──
   wireToggle('auto-rtl', 'autoRTL', () => renderRTLSubOptions());
   wireToggle('set-direction-rtl', 'setDirectionRTL');
-  wireToggle('mirror-layout', 'mirrorLayout');
+  wireToggle('mirror-layout', 'mirrorLayout', () => renderRTLSubOptions());
+  wirePatternList('rtl-opt-out', 'rtlOptOutPatterns');
+  wireToggle('flip-icons', 'flipIcons', () => renderRTLSubOptions());
+  wirePatternList('flip-icon', 'flipIconPatterns');
   wireToggle('keep-western-numerals', 'keepWesternNumerals');
   wireToggle('keep-punctuation', 'keepPunctuationStyle');
 
+  // ── Settings tab: Translation memory ──
+  wireToggle('use-memory', 'useTranslationMemory');
+  qid('memory-search').addEventListener('input', renderMemoryList);
+  qid('btn-memory-export').addEventListener('click', exportMemory);
+  qid('btn-memory-clear').addEventListener('click', () => {
+    if (memoryEntries.length === 0) return;
+    if (!confirm(`Delete all ${memoryEntries.length} remembered translations?`)) return;
+    send({ type: 'memory-clear' });
+  });
+
+  // ── Settings tab: Document profile ──
+  qid('btn-profile-publish').addEventListener('click', () => {
+    const verb = documentProfile ? 'Replace the document profile with' : 'Publish';
+    if (!confirm(`${verb} your glossary, preserve terms, tone, formality, language styles and instructions for everyone in this file?`)) return;
+    send({ type: 'profile-publish', settings });
+  });
+  qid('btn-profile-copy').addEventListener('click', () => {
+    if (!documentProfile) return;
+    settings = applyDocumentProfile(settings, documentProfile);
+    persistSettings();
+    renderSettingsValues();
+  });
+  qid('btn-profile-remove').addEventListener('click', () => {
+    if (!confirm('Remove the document profile from this file? Everyone falls back to their personal settings.')) return;
+    send({ type: 'profile-remove' });
+  });
+
+  // ── Settings tab: Pseudo-localisation ──
+  qid('pseudo-expansion-input').addEventListener('change', (e: Event) => {
+    const val = parseInt((e.target as HTMLInputElement).value);
+    settings.pseudoExpansion = isNaN(val) ? DEFAULT_SETTINGS.pseudoExpansion : Math.max(0, val);
+    persistSettings();
+  });
+  wireToggle('pseudo-brackets', 'pseudoBrackets');
+
   // ── Settings tab: Advanced ──
   wireToggle('allow-font-fallback', 'allowFontFallback');
+  qid('chunk-budget-input').addEventListener('change', (e: Event) => {
+    const val = parseInt((e.target as HTMLInputElement).value);
+    settings.chunkCharBudget = isNaN(val) ? DEFAULT_SETTINGS.chunkCharBudget : Math.max(MIN_CHUNK_BUDGET, val);
+    persistSettings();
+  });
+  qid('request-concurrency-input').addEventListener('change', (e: Event) => {
+    const val = parseInt((e.target as HTMLInputElement).value);
+    settings.requestConcurrency = isNaN(val) ? DEFAULT_SETTINGS.requestConcurrency : Math.min(8, Math.max(1, val));
+    setConcurrency(settings.requestConcurrency);
+    persistSettings();
+  });
+  qid('autofit-attempts-input').addEventListener('change', (e: Event) => {
+    const val = parseInt((e.target as HTMLInputElement).value);
+    settings.autoFitAttempts = isNaN(val) ? DEFAULT_SETTINGS.autoFitAttempts : Math.min(5, Math.max(1, val));
+    persistSettings();
+  });
+  for (const strategy of FIT_STRATEGIES) {
+    qid(strategy.toggle).addEventListener('change', () => {
+      settings.fitStrategies = FIT_STRATEGIES
+        .filter(s => (qid(s.toggle) as HTMLInputElement).checked)
+        .map(s => s.id);
+      persistSettings();
+    });
+  }
+  qid('fit-min-font-input').addEventListener('change', (e: Event) => {
+    const val = parseFloat((e.target as HTMLInputElement).value);
+    settings.fitMinFontSize = isNaN(val) ? DEFAULT_SETTINGS.fitMinFontSize : Math.max(1, val);
+    persistSettings();
+  });
+  qid('fit-min-ls-input').addEventListener('change', (e: Event) => {
+    const val = parseFloat((e.target as HTMLInputElement).value);
+    settings.fitMinLetterSpacing = isNaN(val) ? DEFAULT_SETTINGS.fitMinLetterSpacing : Math.min(0, val);
+    persistSettings();
+  });
+  qid('fit-min-lh-input').addEventListener('change', (e: Event) => {
+    const val = parseFloat((e.target as HTMLInputElement).value);
+    settings.fitMinLineHeight = isNaN(val) ? DEFAULT_SETTINGS.fitMinLineHeight : Math.max(1, val);
+    persistSettings();
+  });
+  qid('chunk-concurrency-input').addEventListener('change', (e: Event) => {
+    const val = parseInt((e.target as HTMLInputElement).value);
+    settings.chunkConcurrency = isNaN(val) ? DEFAULT_SETTINGS.chunkConcurrency : Math.min(4, Math.max(1, val));
+    persistSettings();
+  });
+
+  // ── Results tab: Export ──
+  qid('export-format').innerHTML = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+    .map(f => `<option value="${f}">${esc(EXPORT_FORMATS[f])}</option>`)
+    .join('');
+  qid('export-format').addEventListener('change', (e: Event) => {
+    settings.exportFormat = (e.target as HTMLSelectElement).value as ExportFormat;
+    persistSettings();
+    renderExportBar();
+  });
+  qid('export-key-mode').addEventListener('change', (e: Event) => {
+    settings.exportKeyMode = (e.target as HTMLSelectElement).value as ExportKeyMode;
+    persistSettings();
+  });
+  qid('export-source-lang').addEventListener('change', (e: Event) => {
+    settings.sourceLanguage = (e.target as HTMLInputElement).value.trim() || 'en';
+    persistSettings();
+  });
+  qid('btn-export').addEventListener('click', exportResults);
+
+  // ── Results tab: Rewrite ──
+  qid('rewrite-mode').innerHTML = REWRITE_MODES
+    .map(m => `<option value="${m.id}">${esc(m.label)}</option>`)
+    .join('');
+  qid('rewrite-mode').addEventListener('change', renderRewriteControls);
+  qid('rewrite-lang').addEventListener('change', renderRewriteStrings);
+  qid('rewrite-scope').addEventListener('change', renderRewriteControls);
+  qid('rewrite-string').addEventListener('change', renderRewriteControls);
+  qid('btn-rewrite').addEventListener('click', () => startRewrite());
+
+  // ── Results tab: rate-limit wait ──
+  onSchedulerStatus(renderRateLimit);
 
   // ── Resize handle ──
   initResizeHandle();
@@ -223,6 +535,8 @@ function switchTab(tab: string) {
   for (const panel of $$<HTMLElement>('.tab-content')) {
     panel.hidden = panel.id !== `tab-${tab}`;
   }
+  // Memory lives in controller storage; refresh it whenever Settings opens
+  if (tab === 'settings') send({ type: 'memory-list' });
 }
 
 // ────────────────────────────────────────────
@@ -236,22 +550,69 @@ function renderSelection() {
           <path d="M13 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V9z"></path>
           <polyline points="13 2 13 9 20 9"></polyline>
         </svg>
-        <span>Select a frame or instance to begin.</span>
+        <span>Select one or more frames or instances to begin.</span>
       </div>
     `;
+    renderImportList();
     return;
   }
   const s = scanResult;
+  const skipped = s.textEntries.filter(isEntrySkipped).length;
+  const translatable = s.textEntries.length - skipped;
+  const unique = groupUnits(translatableEntries()).representatives.length;
   qid('selection-body').innerHTML = `
     <div class="selection-info">
-      <span class="node-name" title="${esc(s.nodeName)}">${esc(s.nodeName)}</span>
+      <span class="node-name" title="${esc(s.frames.map(f => f.nodeName).join(', '))}">${esc(s.nodeName)}</span>
       <span class="node-type">${esc(s.nodeType)}</span>
     </div>
     <div class="text-counts">
-      <span>${s.translatableNodes} translatable</span>
+      <span>${translatable} translatable</span>
+      <span title="Identical strings are translated once">${unique} unique</span>
+      <span>${skipped} skipped</span>
       <span>${s.skippedEmpty} empty</span>
       <span>${s.skippedLocked} locked</span>
     </div>
+    ${s.textEntries.length > 0 ? renderStringReview(s.textEntries) : ''}
+  `;
+
+  for (const cb of $$<HTMLInputElement>('.string-review input', qid('selection-body'))) {
+    cb.addEventListener('change', () => {
+      const entry = s.textEntries.find(e => e.nodeId === cb.value);
+      if (!entry) return;
+      const skip = !cb.checked;
+      // Only store overrides that differ from the classifier's verdict
+      if (skip === entry.skipped) delete skipOverrides[entry.nodeId];
+      else skipOverrides[entry.nodeId] = skip;
+      renderSelection();
+      (qid('string-review') as HTMLDetailsElement).open = true;
+    });
+  }
+  renderImportList();
+}
+
+/** Effective skip state of an entry: classifier verdict unless overridden. */
+function isEntrySkipped(entry: TextEntry): boolean {
+  return entry.nodeId in skipOverrides ? skipOverrides[entry.nodeId] : entry.skipped;
+}
+
+/** Collapsible list of scanned strings with a translate checkbox each. */
+function renderStringReview(entries: TextEntry[]): string {
+  let rows = '';
+  for (const e of entries) {
+    const kind = e.codeLike ? `<span class="string-kind">${CODE_LIKE_LABELS[e.codeLike]}</span>` : '';
+    rows += `
+      <label class="string-review-item" title="${esc(e.nodeName)}">
+        <input type="checkbox" value="${esc(e.nodeId)}" ${isEntrySkipped(e) ? '' : 'checked'}>
+        <span class="string-text">${esc(e.characters)}</span>
+        ${kind}
+      </label>
+    `;
+  }
+  return `
+    <details class="string-review" id="string-review">
+      <summary>Review strings</summary>
+      <div class="string-review-list">${rows}</div>
+    </details>
   `;
 }
 
@@ -263,7 +624,8 @@ function renderLanguageList() {
   const container = qid('lang-list');
   container.innerHTML = '';
 
-  const filtered = LANGUAGES.filter(l =>
+  // Pseudo-locales are listed last, below a divider
+  const filtered = [...LANGUAGES, ...PSEUDO_LANGUAGES].filter(l =>
     l.code !== 'en' && (
       l.name.toLowerCase().includes(search) ||
       l.nativeName.toLowerCase().includes(search) ||
@@ -274,7 +636,7 @@ function renderLanguageList() {
   for (const lang of filtered) {
     const checked = selectedLangCodes.has(lang.code);
     const item = document.createElement('label');
-    item.className = 'check-item';
+    item.className = lang.pseudo ? 'check-item pseudo' : 'check-item';
     item.innerHTML = `
       <input type="checkbox" value="${lang.code}" ${checked ? 'checked' : ''}>
       <span>${esc(lang.name)}</span>
@@ -297,6 +659,7 @@ function renderLanguageList() {
 
 function renderSelectedCount() {
   qid('selected-count').textContent = `${selectedLangCodes.size} selected`;
+  renderEstimate();
 }
 
 function renderPresetButtons() {
@@ -329,6 +692,97 @@ function applyPreset(preset: string) {
   renderPresetButtons();
 }
 
+// ────────────────────────────────────────────
+// Import
+// ────────────────────────────────────────────
+async function importFiles(files: File[]) {
+  const failed: string[] = [];
+  for (const file of files) {
+    try {
+      const blocks = parseLocalisationFile(file.name, await file.text());
+      for (const block of blocks) {
+        importedSets.push({ filename: file.name, langCode: block.langCode, units: block.units });
+        if (block.langCode) selectedLangCodes.add(block.langCode);
+      }
+    } catch (_e) {
+      failed.push(`${file.name}: ${_e instanceof Error ? _e.message : 'could not be read'}`);
+    }
+  }
+
+  settings.selectedLanguages = [...selectedLangCodes];
+  persistSettings();
+  renderLanguageList();
+  renderPresetButtons();
+  renderImportList();
+  if (failed.length > 0) showError(`Import failed — ${failed.join('; ')}`);
+}
+
+/** Entries that will be sent for translation (not skipped). */
+function translatableEntries(): TextEntry[] {
+  return scanResult ? scanResult.textEntries.filter(e => !isEntrySkipped(e)) : [];
+}
+
+function frameNamesById(frames: SourceFrame[] = scanResult?.frames || []): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const f of frames) names[f.nodeId] = f.nodeName;
+  return names;
+}
+
+/** Imported translations for one language, matched against `entries` of the given frames. */
+function importedTranslationsFor(
+  langCode: string,
+  entries: TextEntry[],
+  frames: SourceFrame[] = scanResult?.frames || [],
+): Record<string, string> {
+  const units = importedSets.filter(s => s.langCode === langCode).flatMap(s => s.units);
+  if (units.length === 0) return {};
+  return matchImported(entries, units, frameNamesById(frames));
+}
+
+function renderImportList() {
+  const container = qid('import-list');
+  const entries = translatableEntries();
+  container.innerHTML = '';
+
+  importedSets.forEach((set, index) => {
+    const matched = set.langCode && scanResult
+      ? Object.keys(matchImported(entries, set.units, frameNamesById())).length
+      : null;
+    const options = LANGUAGES
+      .filter(l => l.code !== 'en')
+      .map(l => `<option value="${l.code}" ${l.code === set.langCode ? 'selected' : ''}>${esc(l.name)}</option>`)
+      .join('');
+
+    const row = document.createElement('div');
+    row.className = 'import-row';
+    row.innerHTML = `
+      <span class="import-file" title="${esc(set.filename)}">${esc(set.filename)}</span>
+      <select>
+        ${set.langCode ? '' : '<option value="" selected disabled>Language…</option>'}
+        ${options}
+      </select>
+      <span class="import-match">${matched === null ? `${set.units.length} strings` : `${matched}/${entries.length} matched`}</span>
+      <button title="Remove">×</button>
+    `;
+    row.querySelector('select')!.addEventListener('change', (e: Event) => {
+      set.langCode = (e.target as HTMLSelectElement).value;
+      selectedLangCodes.add(set.langCode);
+      settings.selectedLanguages = [...selectedLangCodes];
+      persistSettings();
+      renderLanguageList();
+      renderPresetButtons();
+      renderImportList();
+    });
+    row.querySelector('button')!.addEventListener('click', () => {
+      importedSets.splice(index, 1);
+      renderImportList();
+    });
+    container.appendChild(row);
+  });
+  // Imports change what would be sent to the model
+  renderEstimate();
+}
+
 // ────────────────────────────────────────────
 // Render: Layout buttons
 // ────────────────────────────────────────────
@@ -360,41 +814,109 @@ function renderLabelFormatState() {
 // Render: RTL sub-options
 // ────────────────────────────────────────────
 function renderRTLSubOptions() {
+  // The sub-options only take effect while auto RTL is on, so show them only then
   const el = qid('rtl-sub-options');
-  // When auto RTL is on, hide manual sub-options (auto handles it).
-  // When off, show them (manual control).
-  if (!settings.autoRTL) {
+  if (settings.autoRTL) {
     show(el);
   } else {
     hide(el);
   }
+  qid('rtl-opt-out').hidden = !settings.mirrorLayout && !settings.flipIcons;
+  qid('flip-icon').hidden = !settings.flipIcons;
+  renderPatternList('rtl-opt-out', 'rtlOptOutPatterns');
+  renderPatternList('flip-icon', 'flipIconPatterns');
+}
+
+// ────────────────────────────────────────────
+// Layer name pattern lists (RTL)
+// ────────────────────────────────────────────
+type PatternListKey = 'rtlOptOutPatterns' | 'flipIconPatterns';
+
+/** Wire the `<prefix>-input` / `add-<prefix>-btn` pair of a pattern list. */
+function wirePatternList(prefix: string, key: PatternListKey) {
+  const add = () => {
+    const input = qid(`${prefix}-input`) as HTMLInputElement;
+    const pattern = input.value.trim();
+    if (!pattern) return;
+    if (!settings[key].includes(pattern)) {
+      settings[key] = [...settings[key], pattern];
+      persistSettings();
+    }
+    input.value = '';
+    renderPatternList(prefix, key);
+  };
+  qid(`add-${prefix}-btn`).addEventListener('click', add);
+  qid(`${prefix}-input`).addEventListener('keydown', (e: Event) => {
+    if ((e as KeyboardEvent).key === 'Enter') add();
+  });
+}
+
+function renderPatternList(prefix: string, key: PatternListKey) {
+  const container = qid(`${prefix}-list`);
+  container.innerHTML = '';
+  for (const pattern of settings[key]) {
+    const tag = document.createElement('span');
+    tag.className = 'tag text-mono';
+    tag.innerHTML = `${esc(pattern)} <button>&times;</button>`;
+    tag.querySelector('button')!.addEventListener('click', () => {
+      settings[key] = settings[key].filter(p => p !== pattern);
+      persistSettings();
+      renderPatternList(prefix, key);
+    });
+    container.appendChild(tag);
+  }
 }
 
 // ────────────────────────────────────────────
 // Render: Settings tab values
 // ────────────────────────────────────────────
 function renderSettingsValues() {
+  (qid('provider-select') as HTMLSelectElement).value = settings.provider;
+  (qid('base-url-input') as HTMLInputElement).value = settings.baseUrl;
+  (qid('azure-endpoint-input') as HTMLInputElement).value = settings.azureEndpoint;
+  (qid('azure-version-input') as HTMLInputElement).value = settings.azureApiVersion;
   (qid('api-key-input') as HTMLInputElement).value = settings.apiKey;
-  (qid('model-input') as HTMLInputElement).value = settings.model;
   (qid('tone-select') as HTMLSelectElement).value = settings.tone;
   (qid('formality-select') as HTMLSelectElement).value = settings.formality;
   (qid('translation-length') as HTMLSelectElement).value = settings.translationLength || 'normal';
+  (qid('custom-instructions') as HTMLTextAreaElement).value = settings.customInstructions;
 
   setToggle('preserve-line-breaks', settings.preserveLineBreaks);
   setToggle('preserve-placeholders', settings.preservePlaceholders);
   setToggle('skip-code-like', settings.skipCodeLike);
   setToggle('allow-font-fallback', settings.allowFontFallback);
+  setToggle('pseudo-brackets', settings.pseudoBrackets);
+  setToggle('use-memory', settings.useTranslationMemory);
   setToggle('auto-rtl', settings.autoRTL);
   setToggle('set-direction-rtl', settings.setDirectionRTL);
   setToggle('mirror-layout', settings.mirrorLayout);
+  setToggle('flip-icons', settings.flipIcons);
   setToggle('keep-western-numerals', settings.keepWesternNumerals);
   setToggle('keep-punctuation', settings.keepPunctuationStyle);
   setToggle('show-labels', settings.showLabels);
   (qid('label-format') as HTMLSelectElement).value = settings.labelFormat;
   (qid('gap-input') as HTMLInputElement).value = String(settings.gap);
   (qid('wrap-cols-input') as HTMLInputElement).value = String(settings.wrapColumns);
-
+  (qid('pseudo-expansion-input') as HTMLInputElement).value = String(settings.pseudoExpansion);
+  (qid('chunk-budget-input') as HTMLInputElement).value = String(settings.chunkCharBudget);
+  (qid('chunk-concurrency-input') as HTMLInputElement).value = String(settings.chunkConcurrency);
+  (qid('autofit-attempts-input') as HTMLInputElement).value = String(settings.autoFitAttempts);
+  for (const strategy of FIT_STRATEGIES) setToggle(strategy.toggle, settings.fitStrategies.includes(strategy.id));
+  (qid('fit-min-font-input') as HTMLInputElement).value = String(settings.fitMinFontSize);
+  (qid('fit-min-ls-input') as HTMLInputElement).value = String(settings.fitMinLetterSpacing);
+  (qid('fit-min-lh-input') as HTMLInputElement).value = String(settings.fitMinLineHeight);
+  (qid('request-concurrency-input') as HTMLInputElement).value = String(settings.requestConcurrency);
+  (qid('budget-input') as HTMLInputElement).value = String(settings.monthlyBudget);
+  renderBudget();
+  (qid('export-format') as HTMLSelectElement).value = settings.exportFormat;
+  (qid('export-key-mode') as HTMLSelectElement).value = settings.exportKeyMode;
+  (qid('export-source-lang') as HTMLInputElement).value = settings.sourceLanguage;
+
+  renderProviderFields();
   renderPreserveTerms();
+  renderAllowedUntranslated();
+  renderLanguageStyles();
+  renderGlossary();
   renderLayoutButtons();
   renderLabelFormatState();
   renderRTLSubOptions();
@@ -404,6 +926,106 @@ function setToggle(id: string, value: boolean) {
   (qid(id) as HTMLInputElement).checked = value;
 }
 
+// ────────────────────────────────────────────
+// Provider + per-provider model list
+// ────────────────────────────────────────────
+function renderProviderFields() {
+  const id = settings.provider;
+  qid('base-url-row').hidden = id !== 'openai-compatible';
+  qid('azure-endpoint-row').hidden = id !== 'azure';
+  qid('azure-version-row').hidden = id !== 'azure';
+  qid('model-label').textContent = id === 'azure' ? 'Deployment' : 'Model';
+  (qid('api-key-input') as HTMLInputElement).placeholder =
+    getProvider(settings).requiresApiKey ? 'sk-…' : 'Optional';
+  qid('models-sublabel').textContent = id === 'azure'
+    ? `Deployment names offered for ${PROVIDERS[id].name}`
+    : `Models offered for ${PROVIDERS[id].name}`;
+
+  const models = settings.providerModels[id] || [];
+  const select = qid('model-select') as HTMLSelectElement;
+  const options = models.includes(settings.model) || !settings.model
+    ? models
+    : [settings.model, ...models];
+  select.innerHTML = options.length
+    ? options.map(m => `<option value="${esc(m)}">${esc(m)}</option>`).join('')
+    : '<option value="">Add a model below</option>';
+  select.value = settings.model;
+
+  const container = qid('models-list');
+  container.innerHTML = '';
+  for (const model of models) {
+    const tag = document.createElement('span');
+    tag.className = 'tag';
+    tag.innerHTML = `${esc(model)} <button>&times;</button>`;
+    tag.querySelector('button')!.addEventListener('click', () => removeProviderModel(model));
+    container.appendChild(tag);
+  }
+  (qid('fallback-provider-select') as HTMLSelectElement).value = id;
+  renderFallbackModels();
+}
+
+function addProviderModel() {
+  const input = qid('model-add-input') as HTMLInputElement;
+  const model = input.value.trim();
+  if (!model) return;
+  const models = settings.providerModels[settings.provider] || [];
+  if (!models.includes(model)) {
+    settings.providerModels = { ...settings.providerModels, [settings.provider]: [...models, model] };
+  }
+  if (!settings.model) settings.model = model;
+  input.value = '';
+  persistSettings();
+  renderProviderFields();
+}
+
+function removeProviderModel(model: string) {
+  const models = (settings.providerModels[settings.provider] || []).filter(m => m !== model);
+  settings.providerModels = { ...settings.providerModels, [settings.provider]: models };
+  if (settings.model === model) settings.model = models[0] || '';
+  persistSettings();
+  renderProviderFields();
+}
+
+// ────────────────────────────────────────────
+// Fallback models
+// ────────────────────────────────────────────
+
+/** Model name, plus the provider when it is not the one selected above. */
+function modelRefLabel(ref: ModelRef): string {
+  return ref.provider === settings.provider ? ref.model : `${ref.model} (${PROVIDERS[ref.provider].name})`;
+}
+
+function addFallbackModel() {
+  const input = qid('fallback-model-input') as HTMLInputElement;
+  const model = input.value.trim();
+  if (!model) return;
+  const provider = (qid('fallback-provider-select') as HTMLSelectElement).value as ModelRef['provider'];
+  if (!settings.fallbackModels.some(r => r.provider === provider && r.model === model)) {
+    settings.fallbackModels = [...settings.fallbackModels, { provider, model }];
+  }
+  input.value = '';
+  persistSettings();
+  renderFallbackModels();
+}
+
+function removeFallbackModel(index: number) {
+  settings.fallbackModels = settings.fallbackModels.filter((_r, i) => i !== index);
+  persistSettings();
+  renderFallbackModels();
+}
+
+function renderFallbackModels() {
+  const container = qid('fallback-list');
+  container.innerHTML = '';
+  settings.fallbackModels.forEach((ref, i) => {
+    const tag = document.createElement('span');
+    tag.className = 'tag';
+    tag.innerHTML = `${i + 1}. ${esc(modelRefLabel(ref))} <button>&times;</button>`;
+    tag.querySelector('button')!.addEventListener('click', () => removeFallbackModel(i));
+    container.appendChild(tag);
+  });
+}
+
 // ────────────────────────────────────────────
 // Preserve terms
 // ────────────────────────────────────────────
@@ -438,13 +1060,236 @@ function renderPreserveTerms() {
 }
 
 // ────────────────────────────────────────────
-// Test API key
+// Allowed untranslated
+// ────────────────────────────────────────────
+function addAllowedUntranslated() {
+  const input = qid('allow-input') as HTMLInputElement;
+  const text = input.value.trim();
+  if (!text) return;
+  if (!settings.untranslatedAllowList.includes(text)) {
+    settings.untranslatedAllowList = [...settings.untranslatedAllowList, text];
+    persistSettings();
+  }
+  input.value = '';
+  renderAllowedUntranslated();
+}
+
+function renderAllowedUntranslated() {
+  const container = qid('allow-list');
+  container.innerHTML = '';
+  for (const text of settings.untranslatedAllowList) {
+    const tag = document.createElement('span');
+    tag.className = 'tag';
+    tag.innerHTML = `${esc(text)} <button>&times;</button>`;
+    tag.querySelector('button')!.addEventListener('click', () => {
+      settings.untranslatedAllowList = settings.untranslatedAllowList.filter(t => t !== text);
+      persistSettings();
+      renderAllowedUntranslated();
+    });
+    container.appendChild(tag);
+  }
+}
+
+// ────────────────────────────────────────────
+// Per-language style
+// ────────────────────────────────────────────
+function addLanguageStyle() {
+  const langCode = (qid('style-lang-select') as HTMLSelectElement).value;
+  const tone = (qid('style-tone-select') as HTMLSelectElement).value as PluginSettings['tone'] | '';
+  const formality = (qid('style-formality-select') as HTMLSelectElement).value as PluginSettings['formality'] | '';
+  if (!tone && !formality) return;
+
+  settings.languageStyles = {
+    ...settings.languageStyles,
+    [langCode]: { ...(tone ? { tone } : {}), ...(formality ? { formality } : {}) },
+  };
+  persistSettings();
+  renderLanguageStyles();
+}
+
+function renderLanguageStyles() {
+  const container = qid('styles-list');
+  container.innerHTML = '';
+  for (const [code, style] of Object.entries(settings.languageStyles)) {
+    const parts = [style.tone, style.formality].filter(Boolean).join(', ');
+    const tag = document.createElement('span');
+    tag.className = 'tag';
+    tag.innerHTML = `<span class="glossary-lang">${esc(code)}</span> ${esc(parts)} <button>&times;</button>`;
+    tag.querySelector('button')!.addEventListener('click', () => {
+      const next = { ...settings.languageStyles };
+      delete next[code];
+      settings.languageStyles = next;
+      persistSettings();
+      renderLanguageStyles();
+    });
+    container.appendChild(tag);
+  }
+}
+
+// ────────────────────────────────────────────
+// Document profile
+// ────────────────────────────────────────────
+function renderDocumentProfile() {
+  const p = documentProfile;
+  qid('profile-badge').hidden = !p;
+  for (const note of $$<HTMLElement>('.profile-note')) note.hidden = !p;
+  qid('btn-profile-copy').hidden = !p;
+  qid('btn-profile-remove').hidden = !p;
+  qid('btn-profile-publish').textContent = p ? 'Replace with my rules' : 'Publish my rules to file';
+  qid('profile-status').textContent = p ? 'In effect' : 'Not set';
+
+  if (!p) {
+    qid('profile-summary').textContent = 'This file has no document profile. Your personal settings are used.';
+    return;
+  }
+  const parts = [
+    `${p.glossary.length} glossary term${p.glossary.length === 1 ? '' : 's'}`,
+    `${p.preserveTerms.length} preserve term${p.preserveTerms.length === 1 ? '' : 's'}`,
+    `tone ${p.tone}`,
+    `formality ${p.formality}`,
+  ];
+  const styles = Object.keys(p.languageStyles).length;
+  if (styles > 0) parts.push(`${styles} language style${styles === 1 ? '' : 's'}`);
+  if (p.customInstructions) parts.push('custom instructions');
+  const when = p.updatedAt ? new Date(p.updatedAt).toLocaleDateString() : '';
+  const by = p.updatedBy ? ` by ${p.updatedBy}` : '';
+  qid('profile-summary').textContent = `${parts.join(' · ')}${when ? ` — updated ${when}${by}` : ''}`;
+}
+
+// ────────────────────────────────────────────
+// Glossary
+// ────────────────────────────────────────────
+function addGlossaryEntry() {
+  const termInput = qid('glossary-term-input') as HTMLInputElement;
+  const targetInput = qid('glossary-target-input') as HTMLInputElement;
+  const term = termInput.value.trim();
+  const target = targetInput.value.trim();
+  if (!term || !target) return;
+  const langCode = (qid('glossary-lang-select') as HTMLSelectElement).value;
+
+  settings.glossary = mergeGlossary(settings.glossary, [{ term, translations: { [langCode]: target } }]);
+  persistSettings();
+  targetInput.value = '';
+  targetInput.focus();
+  renderGlossary();
+}
+
+function removeGlossaryTranslation(term: string, langCode: string) {
+  settings.glossary = settings.glossary
+    .map(g => {
+      if (g.term !== term) return g;
+      const translations = { ...g.translations };
+      delete translations[langCode];
+      return { term: g.term, translations };
+    })
+    .filter(g => Object.keys(g.translations).length > 0);
+  persistSettings();
+  renderGlossary();
+}
+
+async function importGlossary(file: File) {
+  try {
+    const entries = parseGlossaryFile(file.name, await file.text(), settings.sourceLanguage || 'en');
+    settings.glossary = mergeGlossary(settings.glossary, entries);
+    persistSettings();
+    renderGlossary();
+    send({ type: 'notify', message: `Imported ${entries.length} glossary term${entries.length === 1 ? '' : 's'}` });
+  } catch (_e) {
+    send({ type: 'notify', message: `Glossary import failed: ${_e instanceof Error ? _e.message : file.name}`, error: true });
+  }
+}
+
+function renderGlossary() {
+  const container = qid('glossary-list');
+  container.innerHTML = '';
+  const sorted = [...settings.glossary].sort((a, b) => a.term.localeCompare(b.term));
+  for (const g of sorted) {
+    const row = document.createElement('div');
+    row.className = 'glossary-row';
+    row.innerHTML = `<span class="glossary-term" title="${esc(g.term)}">${esc(g.term)}</span><div class="tag-list"></div>`;
+    const tags = row.querySelector('.tag-list')!;
+    for (const [code, target] of Object.entries(g.translations)) {
+      const tag = document.createElement('span');
+      tag.className = 'tag';
+      tag.innerHTML = `<span class="glossary-lang">${esc(code)}</span> ${esc(target)} <button>&times;</button>`;
+      tag.querySelector('button')!.addEventListener('click', () => removeGlossaryTranslation(g.term, code));
+      tags.appendChild(tag);
+    }
+    container.appendChild(row);
+  }
+}
+
+// ────────────────────────────────────────────
+// Translation memory
+// ────────────────────────────────────────────
+
+/** Maximum rows rendered at once; search narrows the rest down. */
+const MEMORY_LIST_LIMIT = 100;
+
+function renderMemoryList() {
+  const search = (qid('memory-search') as HTMLInputElement).value.toLowerCase();
+  const container = qid('memory-list');
+
+  const filtered = memoryEntries.filter(m =>
+    !search ||
+    m.source.toLowerCase().includes(search) ||
+    m.translation.toLowerCase().includes(search) ||
+    m.langCode.toLowerCase().includes(search)
+  );
+
+  qid('memory-count').textContent = search
+    ? `${filtered.length} of ${memoryEntries.length} entries`
+    : `${memoryEntries.length} entries`;
+
+  if (filtered.length === 0) {
+    container.innerHTML = `<div class="memory-empty">${memoryEntries.length === 0 ? 'Memory is empty.' : 'No matches.'}</div>`;
+    return;
+  }
+
+  let html = '';
+  for (const m of filtered.slice(0, MEMORY_LIST_LIMIT)) {
+    html += `
+      <div class="memory-row">
+        <span class="memory-lang">${esc(m.langCode)}</span>
+        <span class="memory-source" title="${esc(m.source)}">${esc(m.source)}</span>
+        <span class="memory-target" title="${esc(m.translation)}">${esc(m.translation)}</span>
+      </div>
+    `;
+  }
+  container.innerHTML = html;
+}
+
+function exportMemory() {
+  if (memoryEntries.length === 0) return;
+  const date = new Date().toISOString().slice(0, 10);
+  downloadFile(
+    `polypaste-memory-${date}.json`,
+    JSON.stringify(memoryEntries, null, 2),
+    'application/json',
+  );
+}
+
+/** Trigger a browser download of a generated text file. */
+function downloadFile(filename: string, content: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+// ────────────────────────────────────────────
+// Test connection
 // ────────────────────────────────────────────
 async function handleTestKey() {
   const btn = qid('btn-test-key') as HTMLButtonElement;
   const status = qid('key-test-status');
-  if (!settings.apiKey) {
-    status.textContent = 'Enter an API key first.';
+  const problem = getProvider(settings).validate(settings) || (settings.model ? null : 'Choose a model first.');
+  if (problem) {
+    status.textContent = problem;
     status.className = 'text-xs';
     status.style.color = 'var(--danger)';
     return;
@@ -454,14 +1299,14 @@ async function handleTestKey() {
   status.className = 'text-xs text-muted';
   status.style.color = '';
 
-  const res = await testApiKey(settings.apiKey, settings.model);
+  const res = await testConnection(settings);
   btn.disabled = false;
   if (res.ok) {
-    status.textContent = 'Key is valid.';
+    status.textContent = 'Connection works.';
     status.className = 'text-xs success-text';
     status.style.color = '';
   } else {
-    status.textContent = res.error || 'Invalid key.';
+    status.textContent = res.error || 'Connection failed.';
     status.className = 'text-xs';
     status.style.color = 'var(--danger)';
   }
@@ -472,7 +1317,7 @@ async function handleTestKey() {
 // ────────────────────────────────────────────
 function startGeneration() {
   if (generating) return;
-  if (!scanResult || scanResult.translatableNodes === 0) {
+  if (!scanResult || scanResult.textEntries.every(isEntrySkipped)) {
     showError('No translatable text. Scan first.');
     return;
   }
@@ -480,21 +1325,46 @@ function startGeneration() {
     showError('Select at least one language.');
     return;
   }
-  if (!settings.apiKey) {
-    showError('Set your OpenAI API key in Settings.');
-    return;
+  // Pseudo-locales are generated locally — a provider is only needed for real languages
+  if ([...selectedLangCodes].some(code => !isPseudoLanguage(code))) {
+    const providerError = getProvider(settings).validate(settings);
+    if (providerError) {
+      showError(providerError);
+      return;
+    }
+    if (!settings.model) {
+      showError('Choose a model in Settings.');
+      return;
+    }
   }
 
-  if (selectedLangCodes.size > 8) {
-    if (!confirm(`Generate for ${selectedLangCodes.size} languages?`)) return;
+  const estimate = runEstimate();
+  const total = totalEstimate(estimate);
+  const spent = monthlyUsageNow(settings.monthlyUsage).cost;
+  if (settings.monthlyBudget > 0 && total.cost !== null && spent + total.cost > settings.monthlyBudget) {
+    const msg = `This run costs about ${formatCost(total.cost)}. With ${formatCost(spent)} spent this month, `
+      + `that goes over your monthly budget of ${formatCost(settings.monthlyBudget)}. Continue?`;
+    if (!confirm(msg)) return;
+  } else if (selectedLangCodes.size > 8) {
+    const cost = total.cost !== null ? `, about ${formatCost(total.cost)}` : '';
+    const tokens = formatTokens(total.inputTokens + total.outputTokens);
+    if (!confirm(`Generate for ${selectedLangCodes.size} languages (≈ ${tokens} tokens${cost})?`)) return;
   }
 
   generating = true;
   abortController = new AbortController();
   langProgressMap.clear();
   translationsStore.clear();
+  fitLogs.clear();
+  layoutFits.clear();
+  humanEdited.clear();
+  editDrafts.clear();
+  openEditors.clear();
+  translationHistory.clear();
+  openHistories.clear();
   translationQueue.length = 0;
   activeTranslations = 0;
+  runScan = { textEntries: translatableEntries(), frames: scanResult.frames };
   hideError();
 
   const languages: Language[] = [];
@@ -518,7 +1388,7 @@ function startGeneration() {
   renderStatusList();
   showGeneratingUI();
 
-  send({ type: 'start-generate', languages, settings });
+  send({ type: 'start-generate', languages, settings, skipOverrides });
 }
 
 function cancelGeneration() {
@@ -546,13 +1416,7 @@ function cancelGeneration() {
 // ────────────────────────────────────────────
 // Translation orchestration (runs here in the UI)
 // ────────────────────────────────────────────
-function enqueueTranslation(req: {
-  langCode: string;
-  langName: string;
-  isRTL: boolean;
-  textEntries: TextEntry[];
-  settings: PluginSettings;
-}) {
+function enqueueTranslation(req: TranslationRequest) {
   if (!generating) return; // Ignore if cancelled
   translationQueue.push(req);
   processQueue();
@@ -562,7 +1426,7 @@ async function processQueue() {
   while (
     generating &&
     translationQueue.length > 0 &&
-    activeTranslations < 2
+    activeTranslations < settings.requestConcurrency
   ) {
     const req = translationQueue.shift()!;
     activeTranslations++;
@@ -573,39 +1437,201 @@ async function processQueue() {
   }
 }
 
-async function processTranslation(req: {
-  langCode: string;
-  langName: string;
-  isRTL: boolean;
-  textEntries: TextEntry[];
-  settings: PluginSettings;
-}) {
+async function processTranslation(req: TranslationRequest) {
   if (!generating) return;
 
-  const { langCode, langName, isRTL, textEntries } = req;
+  const { langCode, langName, isRTL, cached } = req;
+
+  // Pseudo-locales never reach the API
+  const pseudo = getLanguageByCode(langCode)?.pseudo;
+  if (pseudo) {
+    updateLangProgress(langCode, 'translating');
+    const translations = pseudoTranslateBatch(req.textEntries, pseudo, req.settings);
+    translationsStore.set(langCode, translations);
+    send({ type: 'translations-ready', langCode, translations });
+    return;
+  }
 
-  updateLangProgress(langCode, 'translating');
+  // Imported translations take precedence over memory; only the rest go to the API
+  const imported = runScan ? importedTranslationsFor(langCode, runScan.textEntries, runScan.frames) : {};
+  const reused = { ...cached, ...imported };
+  const textEntries = req.textEntries.filter(e => !(e.id in imported));
+  const importedCount = Object.keys(imported).length;
+  recordHistory(langCode, Object.fromEntries(Object.entries(cached).filter(([id]) => !(id in imported))), 'memory');
+  recordHistory(langCode, imported, 'import');
+
+  const previous = langProgressMap.get(langCode)?.detail;
+  const detail = importedCount > 0
+    ? [previous, `${importedCount} imported`].filter(Boolean).join(' · ')
+    : previous;
+  updateLangProgress(langCode, 'translating', detail);
+
+  // Everything came from memory or imports — nothing to send to the API
+  if (textEntries.length === 0) {
+    translationsStore.set(langCode, reused);
+    send({ type: 'translations-ready', langCode, translations: reused });
+    return;
+  }
 
-  const { translations, error } = await translateBatch(
+  // Repeated strings are translated once and fanned out to every node
+  const units = groupUnits(textEntries);
+  const { translations: unitTranslations, error, usage, models } = await translateBatch(
     langName,
     langCode,
     isRTL,
-    textEntries,
+    units.representatives,
     req.settings,
     2,
     abortController?.signal,
+    (index, total) => {
+      if (!generating) return;
+      updateLangProgress(langCode, 'translating', [detail, `chunk ${index}/${total}`].filter(Boolean).join(' · '));
+    },
   );
 
+  if (usage) recordUsage(langCode, usage);
+  if (models) recordModels(langCode, models);
   if (!generating) return; // Cancelled while translating
 
-  if (translations) {
+  // Drop the chunk counter once the language is translated
+  if (langProgressMap.get(langCode)?.detail !== detail) {
+    updateLangProgress(langCode, 'translating', detail || '');
+  }
+
+  if (unitTranslations) {
+    const translated = fanOut(unitTranslations, units);
+    const translations = { ...reused, ...translated };
     translationsStore.set(langCode, translations);
+    recordHistory(langCode, translated, 'translation');
     send({ type: 'translations-ready', langCode, translations });
   } else {
-    send({ type: 'translation-error', langCode, error: error || 'Unknown error' });
+    // Memory hits and imports are still worth applying
+    translationsStore.set(langCode, reused);
+    send({ type: 'translation-error', langCode, error: error || 'Unknown error', partial: reused });
   }
 }
 
+// ────────────────────────────────────────────
+// Cost estimate & usage
+// ────────────────────────────────────────────
+
+/**
+ * Pre-flight estimate for the selected real languages. Mirrors what
+ * processTranslation sends: imports are excluded and repeated strings
+ * count once. Memory hits are not known here, so this is an upper bound.
+ */
+function runEstimate(): LanguageEstimate[] {
+  const entries = translatableEntries();
+  if (entries.length === 0) return [];
+  const estimates: LanguageEstimate[] = [];
+  for (const code of selectedLangCodes) {
+    const lang = getLanguageByCode(code);
+    if (!lang || lang.pseudo) continue;
+    const imported = importedTranslationsFor(code, entries);
+    const pending = groupUnits(entries.filter(e => !(e.id in imported))).representatives;
+    estimates.push(estimateLanguage(code, lang.name, pending, settings));
+  }
+  return estimates;
+}
+
+function totalEstimate(estimates: LanguageEstimate[]): { inputTokens: number; outputTokens: number; cost: number | null } {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cost: number | null = 0;
+  for (const e of estimates) {
+    inputTokens += e.inputTokens;
+    outputTokens += e.outputTokens;
+    cost = cost === null || e.cost === null ? null : cost + e.cost;
+  }
+  return { inputTokens, outputTokens, cost };
+}
+
+function usageLabel(u: { inputTokens: number; outputTokens: number; cost: number | null }): string {
+  const tokens = `${formatTokens(u.inputTokens)} in · ${formatTokens(u.outputTokens)} out`;
+  return u.cost !== null && u.cost > 0 ? `${tokens} · ${formatCost(u.cost)}` : tokens;
+}
+
+function renderEstimate() {
+  const card = qid('estimate-card');
+  const estimates = runEstimate();
+  if (estimates.length === 0) {
+    hide(card);
+    return;
+  }
+  show(card);
+
+  const total = totalEstimate(estimates);
+  qid('estimate-total').textContent = `≈ ${usageLabel(total)}`;
+
+  const rows = estimates
+    .map(e => `<div class="estimate-row"><span>${esc(e.langName)}</span><span>${e.strings} strings · ${usageLabel(e)}</span></div>`)
+    .join('');
+  let note = total.cost === null
+    ? `No price known for ${esc(settings.model)}; tokens only.`
+    : 'Upper bound at list prices — translation-memory hits are free.';
+  if (settings.monthlyBudget > 0 && total.cost !== null) {
+    const spent = monthlyUsageNow(settings.monthlyUsage).cost;
+    const over = spent + total.cost > settings.monthlyBudget;
+    note += ` <span class="${over ? 'estimate-warning' : ''}">This month: ${formatCost(spent)} of ${formatCost(settings.monthlyBudget)}${over ? ' — this run would go over' : ''}.</span>`;
+  }
+  qid('estimate-body').innerHTML = `
+    <div class="sublabel">${note}</div>
+    <details class="estimate-details"><summary>Per language</summary>${rows}</details>
+  `;
+}
+
+/** Remember which models of the fallback chain produced a language. */
+function recordModels(langCode: string, models: ModelRef[]) {
+  const prog = langProgressMap.get(langCode);
+  if (prog) prog.models = models;
+}
+
+/** Add a response's usage to the language, the session and the month. */
+function recordUsage(langCode: string, usage: TokenUsage) {
+  if (usage.inputTokens + usage.outputTokens === 0) return;
+  const prog = langProgressMap.get(langCode);
+  if (prog) prog.usage = addUsage(prog.usage || emptyUsage(), usage);
+  addUsage(sessionUsage, usage);
+
+  const budget = settings.monthlyBudget;
+  const month = monthlyUsageNow(settings.monthlyUsage);
+  const wasUnder = month.cost <= budget;
+  settings.monthlyUsage = addUsage(month, usage);
+  persistSettings();
+  renderBudget();
+  if (budget > 0 && wasUnder && settings.monthlyUsage.cost > budget) {
+    send({ type: 'notify', message: `Monthly budget of ${formatCost(budget)} exceeded`, error: true });
+  }
+}
+
+function renderUsageSummary() {
+  const el = qid('usage-summary');
+  const run = emptyUsage();
+  for (const [, prog] of langProgressMap) {
+    if (prog.usage) addUsage(run, prog.usage);
+  }
+  if (sessionUsage.inputTokens + sessionUsage.outputTokens === 0) {
+    hide(el);
+    return;
+  }
+  show(el);
+  const month = monthlyUsageNow(settings.monthlyUsage);
+  const budget = settings.monthlyBudget > 0 ? ` of ${formatCost(settings.monthlyBudget)}` : '';
+  el.innerHTML = `
+    <div>This run: ${usageLabel(run)}</div>
+    <div>Session: ${usageLabel(sessionUsage)}</div>
+    <div>This month: ${formatCost(month.cost)}${budget}</div>
+  `;
+}
+
+function renderBudget() {
+  const month = monthlyUsageNow(settings.monthlyUsage);
+  const spent = month.inputTokens + month.outputTokens > 0
+    ? ` Spent this month: ${formatCost(month.cost)} (${formatTokens(month.inputTokens + month.outputTokens)} tokens).`
+    : '';
+  qid('budget-sublabel').textContent = `Warn before a run would go over this amount (list prices, 0 = off).${spent}`;
+}
+
 // ────────────────────────────────────────────
 // Status list rendering (Results tab)
 // ────────────────────────────────────────────
@@ -626,22 +1652,44 @@ function renderStatusList() {
     return;
   }
 
+  // Progress of other languages re-renders the list; keep the cell being edited focused
+  const active = document.activeElement as HTMLTextAreaElement | null;
+  const focused = active && active.classList.contains('edit-cell') && container.contains(active)
+    ? { lang: active.dataset.lang, id: active.dataset.id, start: active.selectionStart, end: active.selectionEnd }
+    : null;
+
   let html = '';
   for (const [, prog] of langProgressMap) {
     html += renderStatusItem(prog);
   }
   container.innerHTML = html;
+  wireEditors(container);
+
+  if (focused) {
+    const cell = $$<HTMLTextAreaElement>('.edit-cell', container)
+      .find(c => c.dataset.lang === focused.lang && c.dataset.id === focused.id);
+    if (cell) {
+      cell.focus();
+      cell.setSelectionRange(focused.start, focused.end);
+    }
+  }
 
-  // Wire rewrite-shorter buttons
+  // Wire rewrite-shorter and auto-fit buttons
   for (const btn of $$<HTMLButtonElement>('.rewrite-btn', container)) {
     btn.addEventListener('click', () => {
       const langCode = btn.dataset.lang;
-      if (langCode) triggerRewriteShorter(langCode);
+      if (!langCode) return;
+      if (btn.dataset.action === 'fit') triggerAutoFit(langCode);
+      else if (btn.dataset.action === 'layout') triggerFitLayout(langCode);
+      else triggerRewriteShorter(langCode);
     });
   }
 
   // Render the summary bar above the list
   renderResultsSummary();
+  renderExportBar();
+  renderRewriteCard();
+  renderUsageSummary();
 }
 
 function renderResultsSummary() {
@@ -660,7 +1708,7 @@ function renderResultsSummary() {
     if (prog.qaReport.status === 'green') greenCount++;
     else if (prog.qaReport.status === 'amber') amberCount++;
     else if (prog.qaReport.status === 'red') redCount++;
-    if (prog.qaReport.issueEntryIds.length > 0) hasIssues = true;
+    if (prog.qaReport.issueEntryIds.length > 0 && !isPseudoLanguage(prog.langCode)) hasIssues = true;
   }
 
   if (!hasAnyReport) {
@@ -684,6 +1732,7 @@ function renderResultsSummary() {
         <span class="summary-count">${redCount}</span>
       </div>
     </div>
+    ${hasIssues ? '<button class="btn btn-secondary btn-sm" id="btn-autofit-all-inline">Auto-fit all</button>' : ''}
     ${hasIssues ? '<button class="btn btn-secondary btn-sm" id="btn-rewrite-all-inline">Rewrite all shorter</button>' : ''}
   `;
 
@@ -691,6 +1740,10 @@ function renderResultsSummary() {
   if (rewriteBtn) {
     rewriteBtn.addEventListener('click', () => triggerRewriteAll());
   }
+  const fitBtn = el.querySelector('#btn-autofit-all-inline');
+  if (fitBtn) {
+    fitBtn.addEventListener('click', () => triggerAutoFitAll());
+  }
 }
 
 function renderStatusItem(prog: LangProgress): string {
@@ -698,21 +1751,107 @@ function renderStatusItem(prog: LangProgress): string {
   const errorDetail = prog.status === 'error' && prog.detail
     ? `<div class="status-error">${esc(prog.detail)}</div>`
     : '';
+  const detail = prog.status !== 'error' && prog.detail
+    ? `<div class="status-detail">${esc(prog.detail)}</div>`
+    : '';
   const issues = prog.qaReport ? renderIssuesSummary(prog.qaReport, prog.langCode) : '';
+  const frames = prog.qaReport ? renderFrameBreakdown(prog.qaReport) : '';
+  const usage = prog.usage && prog.usage.inputTokens + prog.usage.outputTokens > 0
+    ? `<span class="lang-usage" title="${prog.usage.inputTokens} input / ${prog.usage.outputTokens} output tokens">${usageLabel(prog.usage)}</span>`
+    : '';
+  const models = prog.models && prog.models.length > 0 ? renderModelsUsed(prog.models) : '';
+  const fitLog = renderFitLog(prog.langCode) + renderLayoutFits(prog.langCode);
+  const editor = renderEditor(prog);
 
   return `
     <div class="status-item">
       <div class="status-row">
         ${indicator}
         <span class="lang-name">${esc(prog.langName)}</span>
+        ${usage}
         <span class="lang-code">${prog.langCode}</span>
       </div>
       ${errorDetail}
+      ${detail}
+      ${models}
       ${issues}
+      ${fitLog}
+      ${editor}
+      ${frames}
     </div>
   `;
 }
 
+/** "Translated with …", marking models that are not the main one as fallbacks. */
+function renderModelsUsed(models: ModelRef[]): string {
+  const fallback = models.some(r => r.provider !== settings.provider || r.model !== settings.model);
+  const names = models.map(r => esc(modelRefLabel(r))).join(', ');
+  return `<div class="status-model${fallback ? ' status-model-fallback' : ''}">Translated with ${names}${fallback ? ' (fallback)' : ''}</div>`;
+}
+
+/** Every auto-fit round per string, so the attempts can be reviewed. */
+function renderFitLog(langCode: string): string {
+  const log = fitLogs.get(langCode);
+  if (!log || log.size === 0) return '';
+  const entries = new Map((runScan?.textEntries || []).map(te => [te.id, te]));
+
+  let fitted = 0;
+  let rows = '';
+  for (const [id, attempts] of log) {
+    if (attempts[attempts.length - 1].fits) fitted++;
+    const tries = attempts
+      .map(a => `<li class="${a.fits ? 'fit-ok' : 'fit-miss'}"><span class="fit-budget">≤ ${a.budget}</span> ${esc(a.text)}</li>`)
+      .join('');
+    rows += `<div class="fit-entry"><div class="fit-source">${esc(entries.get(id)?.characters || id)}</div><ol class="fit-attempts">${tries}</ol></div>`;
+  }
+  return `
+    <details class="fit-log">
+      <summary>Auto-fit: ${fitted} of ${log.size} string${log.size === 1 ? '' : 's'} fit</summary>
+      ${rows}
+    </details>
+  `;
+}
+
+/** Which fit-layout strategy fixed which layer. */
+function renderLayoutFits(langCode: string): string {
+  const results = layoutFits.get(langCode);
+  if (!results || results.length === 0) return '';
+  const fixed = results.filter(r => r.strategy).length;
+  const rows = results
+    .map(r => {
+      const label = FIT_STRATEGIES.find(s => s.id === r.strategy)?.label;
+      const what = label ? `${label}: ${esc(r.detail)}` : esc(r.detail);
+      return `<li class="${r.strategy ? 'fit-ok' : 'fit-miss'}"><span class="fit-node">${esc(r.nodeName)}</span> ${what}</li>`;
+    })
+    .join('');
+  return `
+    <details class="fit-log">
+      <summary>Fit layout: ${fixed} of ${results.length} layer${results.length === 1 ? '' : 's'} fixed</summary>
+      <ul class="fit-results">${rows}</ul>
+    </details>
+  `;
+}
+
+/** Per-source-frame QA lines, only shown for multi-frame runs. */
+function renderFrameBreakdown(report: QAReport): string {
+  if (report.frames.length < 2) return '';
+  let html = '<div class="frame-breakdown">';
+  for (const f of report.frames) {
+    const parts: string[] = [];
+    if (f.redIssues > 0) parts.push(`${f.redIssues} red`);
+    if (f.amberIssues > 0) parts.push(`${f.amberIssues} amber`);
+    html += `
+      <div class="frame-row">
+        <span class="status-dot ${f.status}"></span>
+        <span class="frame-name" title="${esc(f.frameName)}">${esc(f.frameName)}</span>
+        <span class="frame-issues">${parts.length ? parts.join(', ') : 'OK'}</span>
+      </div>
+    `;
+  }
+  html += '</div>';
+  return html;
+}
+
 function renderIndicator(prog: LangProgress): string {
   switch (prog.status) {
     case 'pending':
@@ -745,12 +1884,20 @@ function renderIssuesSummary(report: QAReport, langCode: string): string {
   const lineWraps = nonGreen.filter(i => i.type === 'text-overflow' && i.severity === 'amber').length;
   const containerBreaks = nonGreen.filter(i => i.type === 'container-overflow').length;
   const fontErrors = nonGreen.filter(i => i.type === 'font-load').length;
+  const glossaryMisses = nonGreen.filter(i => i.type === 'glossary').length;
+  const mismatches = nonGreen.filter(i => i.type === 'placeholder-mismatch').length;
+  const missing = nonGreen.filter(i => i.type === 'missing-translation').length;
+  const unchanged = nonGreen.filter(i => i.type === 'untranslated').length;
 
   const parts: string[] = [];
   if (overflows > 0) parts.push(`${overflows} overflow`);
   if (lineWraps > 0) parts.push(`${lineWraps} new line${lineWraps > 1 ? 's' : ''}`);
   if (containerBreaks > 0) parts.push(`${containerBreaks} breaks container`);
   if (fontErrors > 0) parts.push(`${fontErrors} missing font${fontErrors > 1 ? 's' : ''}`);
+  if (glossaryMisses > 0) parts.push(`${glossaryMisses} glossary term${glossaryMisses > 1 ? 's' : ''} missed`);
+  if (mismatches > 0) parts.push(`${mismatches} placeholder mismatch${mismatches > 1 ? 'es' : ''}`);
+  if (missing > 0) parts.push(`${missing} missing`);
+  if (unchanged > 0) parts.push(`${unchanged} untranslated`);
 
   const summary = parts.join(', ');
   const hasLayoutIssues = overflows > 0 || lineWraps > 0 || containerBreaks > 0;
@@ -758,7 +1905,10 @@ function renderIssuesSummary(report: QAReport, langCode: string): string {
 
   let html = `<div class="issues-inline">`;
   html += `<span class="issues-summary">${summary}</span>`;
-  if (hasLayoutIssues && !isRewriting) {
+  // Pseudo-locales exist to expose overflow, so there is nothing to rewrite
+  if (hasLayoutIssues && !isRewriting && !isPseudoLanguage(langCode)) {
+    html += ` <button class="rewrite-btn" data-lang="${langCode}" data-action="layout">Fit layout</button>`;
+    html += ` <button class="rewrite-btn" data-lang="${langCode}" data-action="fit">Auto-fit</button>`;
     html += ` <button class="rewrite-btn" data-lang="${langCode}">Rewrite shorter</button>`;
   }
   if (isRewriting) {
@@ -770,51 +1920,460 @@ function renderIssuesSummary(report: QAReport, langCode: string): string {
 }
 
 // ────────────────────────────────────────────
-// Rewrite shorter
+// Inline editor
 // ────────────────────────────────────────────
-async function triggerRewriteShorter(langCode: string) {
+
+/** Whether one language's translations can be edited in place. */
+function isEditable(prog: LangProgress): boolean {
+  const translations = translationsStore.get(prog.langCode);
+  return prog.status === 'done' && !!prog.qaReport && !isPseudoLanguage(prog.langCode)
+    && !!translations && Object.keys(translations).length > 0;
+}
+
+/** Source / translation table with an editable cell per string. */
+function renderEditor(prog: LangProgress): string {
+  if (!runScan || !isEditable(prog)) return '';
+  const code = prog.langCode;
+  const translations = translationsStore.get(code)!;
+  const drafts = editDrafts.get(code) || {};
+  const edited = humanEdited.get(code) || new Set<string>();
+  const issueIds = new Set(prog.qaReport!.issueEntryIds);
+  const entries = runScan.textEntries.filter(te => translations[te.id] !== undefined);
+
+  const rows = entries
+    .map(te => {
+      const value = te.id in drafts ? drafts[te.id] : translations[te.id];
+      const classes = ['edit-row'];
+      if (edited.has(te.id)) classes.push('human-edited');
+      if (te.id in drafts) classes.push('edit-dirty');
+      if (issueIds.has(te.id)) classes.push('edit-issue');
+      const lines = Math.min(4, Math.max(1, Math.ceil(value.length / 32), value.split('\n').length));
+      const versions = translationHistory.get(code)?.get(te.id) || [];
+      return `
+        <tr class="${classes.join(' ')}">
+          <td class="edit-source">${esc(sourceText(te))}</td>
+          <td>
+            <textarea class="edit-cell" rows="${lines}" data-lang="${code}" data-id="${te.id}">${esc(value)}</textarea>
+            ${edited.has(te.id) ? '<span class="edit-badge" title="Not changed by AI rewrites or auto-fit">Human-edited</span>' : ''}
+            ${versions.length > 1 ? renderHistory(code, te.id, versions, translations[te.id]) : ''}
+          </td>
+        </tr>
+      `;
+    })
+    .join('');
+
+  const dirty = Object.keys(drafts).length;
+  const editedNote = edited.size > 0 ? ` · ${edited.size} edited` : '';
+  return `
+    <details class="edit-table-wrap" data-lang="${code}"${openEditors.has(code) ? ' open' : ''}>
+      <summary>Edit translations (${entries.length} string${entries.length === 1 ? '' : 's'}${editedNote})</summary>
+      <table class="edit-table">
+        <thead><tr><th>Source</th><th>Translation</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <div class="edit-actions">
+        <button class="btn btn-secondary btn-sm edit-discard" data-lang="${code}"${dirty ? '' : ' disabled'}>Discard</button>
+        <button class="btn btn-primary btn-sm edit-save" data-lang="${code}"${dirty ? '' : ' disabled'}>Save ${dirty || ''} edit${dirty === 1 ? '' : 's'}</button>
+      </div>
+    </details>
+  `;
+}
+
+/** A string's versions, newest first, with a revert button on each earlier text. */
+function renderHistory(langCode: string, entryId: string, versions: HistoryVersion[], current: string): string {
+  const items = versions
+    .map((v, index) => {
+      const isCurrent = index === versions.length - 1;
+      const revert = v.text !== current
+        ? ` <button class="history-revert" data-lang="${langCode}" data-id="${entryId}" data-index="${index}">Revert</button>`
+        : '';
+      return `
+        <li class="history-version${isCurrent ? ' history-current' : ''}">
+          <div class="history-meta">${esc(historyLabel(v))} · ${formatTime(v.at)}${isCurrent ? ' · current' : ''}${revert}</div>
+          <div class="history-text">${esc(v.text)}</div>
+        </li>
+      `;
+    })
+    .reverse()
+    .join('');
+  const open = openHistories.has(`${langCode}|${entryId}`) ? ' open' : '';
+  return `
+    <details class="edit-history" data-lang="${langCode}" data-id="${entryId}"${open}>
+      <summary>History (${versions.length})</summary>
+      <ol>${items}</ol>
+    </details>
+  `;
+}
+
+function historyLabel(v: HistoryVersion): string {
+  const source = HISTORY_SOURCE_LABELS[v.source];
+  return v.label ? `${source} (${v.label})` : source;
+}
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+function wireEditors(container: HTMLElement) {
+  for (const details of $$<HTMLDetailsElement>('.edit-table-wrap', container)) {
+    details.addEventListener('toggle', () => {
+      const code = details.dataset.lang!;
+      if (details.open) openEditors.add(code);
+      else openEditors.delete(code);
+    });
+  }
+  for (const cell of $$<HTMLTextAreaElement>('.edit-cell', container)) {
+    cell.addEventListener('input', () => updateDraft(cell));
+    cell.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        saveEdits(cell.dataset.lang!);
+      }
+    });
+  }
+  for (const details of $$<HTMLDetailsElement>('.edit-history', container)) {
+    details.addEventListener('toggle', () => {
+      const key = `${details.dataset.lang}|${details.dataset.id}`;
+      if (details.open) openHistories.add(key);
+      else openHistories.delete(key);
+    });
+  }
+  for (const btn of $$<HTMLButtonElement>('.history-revert', container)) {
+    btn.addEventListener('click', () => revertTranslation(btn.dataset.lang!, btn.dataset.id!, Number(btn.dataset.index)));
+  }
+  for (const btn of $$<HTMLButtonElement>('.edit-save', container)) {
+    btn.addEventListener('click', () => saveEdits(btn.dataset.lang!));
+  }
+  for (const btn of $$<HTMLButtonElement>('.edit-discard', container)) {
+    btn.addEventListener('click', () => {
+      editDrafts.delete(btn.dataset.lang!);
+      renderStatusList();
+    });
+  }
+}
+
+/** Track a cell's text as a draft until it matches the stored translation again. */
+function updateDraft(cell: HTMLTextAreaElement) {
+  const code = cell.dataset.lang!;
+  const id = cell.dataset.id!;
+  const drafts = editDrafts.get(code) || {};
+  if (cell.value === (translationsStore.get(code) || {})[id]) delete drafts[id];
+  else drafts[id] = cell.value;
+  editDrafts.set(code, drafts);
+
+  // Update the row and buttons in place; a full re-render would steal focus
+  cell.closest('tr')?.classList.toggle('edit-dirty', id in drafts);
+  const details = cell.closest('.edit-table-wrap');
+  const dirty = Object.keys(drafts).length;
+  const save = details?.querySelector<HTMLButtonElement>('.edit-save');
+  const discard = details?.querySelector<HTMLButtonElement>('.edit-discard');
+  if (save) {
+    save.disabled = dirty === 0;
+    save.textContent = `Save ${dirty || ''} edit${dirty === 1 ? '' : 's'}`;
+  }
+  if (discard) discard.disabled = dirty === 0;
+}
+
+/**
+ * Apply one language's inline edits to the clone and re-run QA. Edited
+ * strings are marked human-edited, so later rewrites skip them.
+ */
+async function saveEdits(langCode: string) {
+  const drafts = editDrafts.get(langCode);
+  const prog = langProgressMap.get(langCode);
+  if (!drafts || Object.keys(drafts).length === 0 || !prog || rewritingLangs.has(langCode)) return;
+
+  const edited = humanEdited.get(langCode) || new Set<string>();
+  for (const id of Object.keys(drafts)) edited.add(id);
+  humanEdited.set(langCode, edited);
+  translationsStore.set(langCode, { ...translationsStore.get(langCode), ...drafts });
+  recordHistory(langCode, drafts, 'edit');
+  editDrafts.delete(langCode);
+
+  const detail = prog.detail;
+  rewritingLangs.add(langCode);
+  updateLangProgress(langCode, 'applying');
+  await applyRewrites(langCode, drafts);
+  updateLangProgress(langCode, 'done', detail || '');
+}
+
+/**
+ * Restore an earlier version of one string, apply it to the clone and
+ * re-run QA. The revert is added to the history as a new version, and
+ * like a manual edit it protects the string from later rewrites.
+ */
+async function revertTranslation(langCode: string, entryId: string, index: number) {
+  const version = translationHistory.get(langCode)?.get(entryId)?.[index];
+  const prog = langProgressMap.get(langCode);
+  if (!version || !prog || rewritingLangs.has(langCode)) return;
+  const stored = translationsStore.get(langCode) || {};
+  if (stored[entryId] === version.text) return;
+
+  const edited = humanEdited.get(langCode) || new Set<string>();
+  edited.add(entryId);
+  humanEdited.set(langCode, edited);
+  const reverted = { [entryId]: version.text };
+  translationsStore.set(langCode, { ...stored, ...reverted });
+  recordHistory(langCode, reverted, 'revert', `to ${historyLabel(version)}, ${formatTime(version.at)}`);
+  const drafts = editDrafts.get(langCode);
+  if (drafts) delete drafts[entryId];
+
+  const detail = prog.detail;
+  rewritingLangs.add(langCode);
+  updateLangProgress(langCode, 'applying');
+  await applyRewrites(langCode, reverted);
+  updateLangProgress(langCode, 'done', detail || '');
+}
+
+/** Append a version for each string whose text differs from its latest one. */
+function recordHistory(langCode: string, translations: Record<string, string>, source: HistorySource, label?: string) {
+  const history = translationHistory.get(langCode) || new Map<string, HistoryVersion[]>();
+  translationHistory.set(langCode, history);
+  const at = Date.now();
+  for (const [id, text] of Object.entries(translations)) {
+    const versions = history.get(id) || [];
+    if (versions.length > 0 && versions[versions.length - 1].text === text) continue;
+    versions.push(label ? { text, source, label, at } : { text, source, at });
+    history.set(id, versions);
+  }
+}
+
+/** Drop strings edited by hand from a rewrite. */
+function withoutHumanEdits(langCode: string, entryIds: string[]): string[] {
+  const edited = humanEdited.get(langCode);
+  return edited ? entryIds.filter(id => !edited.has(id)) : entryIds;
+}
+
+// ────────────────────────────────────────────
+// Export
+// ────────────────────────────────────────────
+
+/** Languages that have translations to export, in result order. */
+function exportableLanguages(): ExportLanguage[] {
+  const languages: ExportLanguage[] = [];
+  for (const [code, prog] of langProgressMap) {
+    const translations = translationsStore.get(code);
+    if (isPseudoLanguage(code) || !translations || Object.keys(translations).length === 0) continue;
+    languages.push({ code, name: prog.langName, translations, qaReport: prog.qaReport });
+  }
+  return languages;
+}
+
+function renderExportBar() {
+  const el = qid('results-export');
+  const languages = exportableLanguages();
+  if (languages.length === 0 || !runScan) {
+    hide(el);
+    return;
+  }
+  show(el);
+  const files = settings.exportFormat === 'csv' ? 1 : languages.length;
+  qid('export-hint').textContent =
+    `${languages.length} language${languages.length === 1 ? '' : 's'} · ${files} file${files === 1 ? '' : 's'}`;
+}
+
+function exportResults() {
+  const languages = exportableLanguages();
+  if (languages.length === 0 || !runScan) return;
+
+  const translated = new Set<string>();
+  for (const l of languages) for (const id of Object.keys(l.translations)) translated.add(id);
+
+  const frameNames = frameNamesById(runScan.frames);
+
+  const files = exportTranslations(settings.exportFormat, {
+    sourceLang: settings.sourceLanguage || 'en',
+    entries: runScan.textEntries.filter(te => translated.has(te.id)),
+    languages,
+    keyMode: settings.exportKeyMode,
+    frameNames,
+  });
+  for (const file of files) downloadFile(file.filename, file.content, file.mime);
+}
+
+// ────────────────────────────────────────────
+// Rewrite
+// ────────────────────────────────────────────
+type RewriteScope = 'all' | 'issues' | 'one';
+
+/** Languages with translations to rewrite (pseudo-locales are generated, not written). */
+function rewritableLanguages(): string[] {
+  const codes: string[] = [];
+  for (const [code, prog] of langProgressMap) {
+    const translations = translationsStore.get(code);
+    if (isPseudoLanguage(code) || !prog.qaReport || !translations || Object.keys(translations).length === 0) continue;
+    codes.push(code);
+  }
+  return codes;
+}
+
+/**
+ * Entry IDs of one language a rewrite would send, before dropping strings
+ * without a translation. Human-edited strings are never included.
+ */
+function rewriteTargets(langCode: string, scope: RewriteScope, entryId: string): string[] {
+  const prog = langProgressMap.get(langCode);
+  if (scope === 'one') return withoutHumanEdits(langCode, entryId ? [entryId] : []);
+  if (scope === 'issues') {
+    const ids = new Set<string>();
+    for (const issue of prog?.qaReport?.issues || []) {
+      if (issue.severity !== 'green' && issue.entryId) ids.add(issue.entryId);
+    }
+    return withoutHumanEdits(langCode, [...ids]);
+  }
+  return withoutHumanEdits(langCode, Object.keys(translationsStore.get(langCode) || {}));
+}
+
+function selectedRewriteLanguages(): string[] {
+  const code = (qid('rewrite-lang') as HTMLSelectElement).value;
+  return code ? [code] : rewritableLanguages();
+}
+
+function renderRewriteCard() {
+  const el = qid('results-rewrite');
+  const codes = rewritableLanguages();
+  if (codes.length === 0 || !runScan) {
+    hide(el);
+    return;
+  }
+  show(el);
+
+  // Only rebuild the options when the language set changes, so an open menu survives progress updates
+  const select = qid('rewrite-lang') as HTMLSelectElement;
+  const key = codes.join(',');
+  if (select.dataset.langs !== key) {
+    const previous = select.value;
+    select.innerHTML = '<option value="">All languages</option>' + codes
+      .map(code => `<option value="${code}">${esc(langProgressMap.get(code)!.langName)}</option>`)
+      .join('');
+    select.value = codes.includes(previous) ? previous : '';
+    select.dataset.langs = key;
+    renderRewriteStrings();
+  }
+  renderRewriteControls();
+}
+
+/** String picker for the "One string" scope: every entry translated in the chosen language(s). */
+function renderRewriteStrings() {
+  if (!runScan) return;
+  const select = qid('rewrite-string') as HTMLSelectElement;
+  const previous = select.value;
+  const stores = selectedRewriteLanguages().map(code => translationsStore.get(code) || {});
+  const entries = runScan.textEntries.filter(te => stores.some(t => t[te.id]));
+  select.innerHTML = entries
+    .map(te => {
+      const text = te.characters.length > 60 ? `${te.characters.slice(0, 60)}…` : te.characters;
+      return `<option value="${te.id}">${esc(text)}</option>`;
+    })
+    .join('');
+  if (entries.some(te => te.id === previous)) select.value = previous;
+  renderRewriteControls();
+}
+
+function renderRewriteControls() {
+  const mode = (qid('rewrite-mode') as HTMLSelectElement).value as RewriteMode;
+  const scope = (qid('rewrite-scope') as HTMLSelectElement).value as RewriteScope;
+  const entryId = (qid('rewrite-string') as HTMLSelectElement).value;
+  qid('rewrite-instruction-row').hidden = mode !== 'custom';
+  qid('rewrite-string-row').hidden = scope !== 'one';
+
+  let strings = 0;
+  let languages = 0;
+  for (const code of selectedRewriteLanguages()) {
+    const translations = translationsStore.get(code) || {};
+    const n = rewriteTargets(code, scope, entryId).filter(id => translations[id]).length;
+    strings += n;
+    if (n > 0) languages++;
+  }
+  qid('rewrite-hint').textContent = strings > 0
+    ? `${rewriteModeLabel(mode)} · ${strings} string${strings === 1 ? '' : 's'} in ${languages} language${languages === 1 ? '' : 's'}`
+    : 'Nothing to rewrite';
+  (qid('btn-rewrite') as HTMLButtonElement).disabled = strings === 0;
+}
+
+/** Run the rewrite configured in the Results tab card. */
+async function startRewrite() {
+  const mode = (qid('rewrite-mode') as HTMLSelectElement).value as RewriteMode;
+  const instruction = (qid('rewrite-instruction') as HTMLInputElement).value.trim();
+  if (mode === 'custom' && !instruction) {
+    send({ type: 'notify', message: 'Enter a rewrite instruction.', error: true });
+    return;
+  }
+  const scope = (qid('rewrite-scope') as HTMLSelectElement).value as RewriteScope;
+  const entryId = (qid('rewrite-string') as HTMLSelectElement).value;
+  // The request scheduler keeps this within the concurrency and rate limits
+  await Promise.all(
+    selectedRewriteLanguages().map(code => triggerRewrite(code, rewriteTargets(code, scope, entryId), mode, instruction)),
+  );
+}
+
+/**
+ * The translation units (see units.ts) a rewrite of `entryIds` touches.
+ * A repeated string is rewritten once and every copy in the language
+ * that is not edited by hand gets the result, including copies outside
+ * the requested scope, so the wording stays consistent.
+ */
+function rewriteUnits(langCode: string, entryIds: string[]): TranslationUnits {
+  const stored = translationsStore.get(langCode) || {};
+  const edited = humanEdited.get(langCode);
+  const candidates = (runScan?.textEntries || []).filter(te => stored[te.id] && !edited?.has(te.id));
+  const units = groupUnits(candidates);
+  const wanted = new Set(entryIds);
+  return {
+    representatives: units.representatives.filter(rep => units.members.get(rep.id)!.some(id => wanted.has(id))),
+    members: units.members,
+  };
+}
+
+/**
+ * Rewrite some of one language's translations, skipping the ones edited
+ * by hand. The controller applies the result through apply-rewrites and
+ * re-runs QA.
+ */
+async function triggerRewrite(langCode: string, entryIds: string[], mode: RewriteMode, instruction: string = '') {
   const prog = langProgressMap.get(langCode);
   const storedTranslations = translationsStore.get(langCode);
-  if (!prog?.qaReport || !storedTranslations || !scanResult) return;
-
-  const issueIds = new Set(prog.qaReport.issueEntryIds || []);
-  if (issueIds.size === 0) return;
-
-  const entries: { id: string; original: string; current: string }[] = [];
-  for (const te of scanResult.textEntries) {
-    if (issueIds.has(te.id) && storedTranslations[te.id]) {
-      entries.push({
-        id: te.id,
-        original: te.characters,
-        current: storedTranslations[te.id],
-      });
+  if (!prog?.qaReport || !storedTranslations || !runScan || rewritingLangs.has(langCode)) return;
+
+  const ids = withoutHumanEdits(langCode, entryIds);
+  const units = rewriteUnits(langCode, ids);
+  if (units.representatives.length === 0) {
+    if (ids.length < entryIds.length) {
+      send({ type: 'notify', message: `${prog.langName}: strings edited by hand are not rewritten` });
     }
+    return;
   }
-  if (entries.length === 0) return;
 
   // Mark as rewriting — stays in the set until the controller progress arrives
   rewritingLangs.add(langCode);
   updateLangProgress(langCode, 'applying');
 
   try {
-    const { translations, error } = await shortenTranslations(
+    const { translations, error, usage, rejected } = await rewriteTranslations(
       prog.langName,
-      entries,
-      settings,
+      langCode,
+      units.representatives,
+      storedTranslations,
+      { mode, instruction },
+      applyDocumentProfile(settings, documentProfile),
     );
+    recordUsage(langCode, usage);
+
+    notifyRejected(prog.langName, rejected);
 
-    if (error || !translations) {
-      send({ type: 'notify', message: error || 'Rewrite failed', error: true });
+    if (error || !translations || Object.keys(translations).length === 0) {
+      if (error) send({ type: 'notify', message: error, error: true });
       rewritingLangs.delete(langCode);
       updateLangProgress(langCode, 'done');
       return;
     }
 
-    const merged = { ...storedTranslations, ...translations };
-    translationsStore.set(langCode, merged);
+    const rewritten = fanOut(translations, units);
+    translationsStore.set(langCode, { ...storedTranslations, ...rewritten });
+    recordHistory(langCode, rewritten, 'rewrite', mode === 'custom' ? instruction : rewriteModeLabel(mode));
 
     // Controller applies + re-runs QA, then sends language-progress back
-    send({ type: 'apply-rewrites', langCode, translations });
+    send({ type: 'apply-rewrites', langCode, translations: rewritten });
   } catch (_e) {
     send({ type: 'notify', message: 'Rewrite failed', error: true });
     rewritingLangs.delete(langCode);
@@ -822,18 +2381,141 @@ async function triggerRewriteShorter(langCode: string) {
   }
 }
 
+function notifyRejected(langName: string, rejected: string[]) {
+  if (rejected.length === 0) return;
+  const one = rejected.length === 1;
+  send({
+    type: 'notify',
+    message: `${langName}: ${rejected.length} rewrite${one ? '' : 's'} broke placeholders or markup and ${one ? 'was' : 'were'} skipped`,
+  });
+}
+
+/** Send a message after which the controller re-runs QA; resolves with the new report. */
+function requestQA(langCode: string, message: UIMessage): Promise<QAReport | undefined> {
+  return new Promise(resolve => {
+    pendingQA.set(langCode, resolve);
+    send(message);
+  });
+}
+
+/** Send rewritten strings to the controller; resolves with the re-run QA report. */
+function applyRewrites(langCode: string, translations: Record<string, string>): Promise<QAReport | undefined> {
+  return requestQA(langCode, { type: 'apply-rewrites', langCode, translations });
+}
+
+/**
+ * Fit one language's overflowing layers without rewording (smaller font,
+ * tighter spacing, hugging containers). The controller reports what it
+ * did per node in fit-results.
+ */
+async function triggerFitLayout(langCode: string) {
+  const prog = langProgressMap.get(langCode);
+  if (!prog?.qaReport || rewritingLangs.has(langCode)) return;
+  rewritingLangs.add(langCode);
+  updateLangProgress(langCode, 'applying');
+  await requestQA(langCode, {
+    type: 'fit-layout',
+    langCode,
+    fit: {
+      fitStrategies: settings.fitStrategies,
+      fitMinFontSize: settings.fitMinFontSize,
+      fitMinLetterSpacing: settings.fitMinLetterSpacing,
+      fitMinLineHeight: settings.fitMinLineHeight,
+    },
+  });
+}
+
+/**
+ * Auto-fit one language: rewrite each string with a layout issue to the
+ * character budget its measured space allows, apply, let QA re-measure,
+ * and repeat for the strings that still do not fit. Every round is kept
+ * in fitLogs for review.
+ */
+async function triggerAutoFit(langCode: string) {
+  const prog = langProgressMap.get(langCode);
+  if (!prog?.qaReport || !runScan || rewritingLangs.has(langCode)) return;
+
+  const log = fitLogs.get(langCode) || new Map<string, FitAttempt[]>();
+  fitLogs.set(langCode, log);
+  const detail = prog.detail;
+  const maxAttempts = Math.max(1, settings.autoFitAttempts);
+  let report: QAReport | undefined = prog.qaReport;
+
+  for (let attempt = 1; report && attempt <= maxAttempts; attempt++) {
+    const stored = translationsStore.get(langCode) || {};
+    const budgets = fitBudgets(report);
+    const units = rewriteUnits(langCode, Object.keys(budgets));
+    if (units.representatives.length === 0) break;
+
+    // Every copy gets the same text, so it has to fit the tightest spot
+    const unitBudgets: Record<string, number> = {};
+    for (const rep of units.representatives) {
+      unitBudgets[rep.id] = Math.min(...units.members.get(rep.id)!.filter(id => id in budgets).map(id => budgets[id]));
+    }
+
+    rewritingLangs.add(langCode);
+    updateLangProgress(langCode, 'applying', `Auto-fit ${attempt}/${maxAttempts}`);
+
+    const { translations, error, usage, rejected } = await rewriteTranslations(
+      prog.langName,
+      langCode,
+      units.representatives,
+      stored,
+      { mode: 'shorter', budgets: unitBudgets },
+      applyDocumentProfile(settings, documentProfile),
+    );
+    recordUsage(langCode, usage);
+    notifyRejected(prog.langName, rejected);
+
+    if (error || !translations || Object.keys(translations).length === 0) {
+      if (error) send({ type: 'notify', message: error, error: true });
+      rewritingLangs.delete(langCode);
+      break;
+    }
+
+    const rewritten = fanOut(translations, units);
+    translationsStore.set(langCode, { ...stored, ...rewritten });
+    recordHistory(langCode, rewritten, 'auto-fit', `round ${attempt}`);
+    report = await applyRewrites(langCode, rewritten);
+
+    // One log line per unit; it fits once none of its copies is flagged
+    const stillOver = report ? fitBudgets(report) : {};
+    for (const [id, text] of Object.entries(translations)) {
+      const attempts = log.get(id) || [];
+      const fits = !units.members.get(id)!.some(member => member in stillOver);
+      attempts.push({ attempt, budget: unitBudgets[id], text, fits });
+      log.set(id, attempts);
+    }
+  }
+
+  updateLangProgress(langCode, 'done', detail || '');
+}
+
+/** Auto-fit every language that has layout issues. */
+async function triggerAutoFitAll() {
+  const codes: string[] = [];
+  for (const [code, prog] of langProgressMap) {
+    if (prog.qaReport && prog.qaReport.issueEntryIds.length > 0 && !isPseudoLanguage(code)) codes.push(code);
+  }
+  await Promise.all(codes.map(code => triggerAutoFit(code)));
+}
+
+/** Shorten the strings with layout issues in one language. */
+function triggerRewriteShorter(langCode: string) {
+  const prog = langProgressMap.get(langCode);
+  return triggerRewrite(langCode, prog?.qaReport?.issueEntryIds || [], 'shorter');
+}
+
 /** Rewrite all languages that have layout issues. */
 async function triggerRewriteAll() {
   const langsWithIssues: string[] = [];
   for (const [code, prog] of langProgressMap) {
-    if (prog.qaReport && prog.qaReport.issueEntryIds.length > 0) {
+    if (prog.qaReport && prog.qaReport.issueEntryIds.length > 0 && !isPseudoLanguage(code)) {
       langsWithIssues.push(code);
     }
   }
-  // Run sequentially to avoid hammering the API
-  for (const code of langsWithIssues) {
-    await triggerRewriteShorter(code);
-  }
+  // The request scheduler keeps this within the concurrency and rate limits
+  await Promise.all(langsWithIssues.map(code => triggerRewriteShorter(code)));
 }
 
 // ────────────────────────────────────────────
@@ -849,6 +2531,29 @@ function showIdleUI() {
   hide(qid('btn-cancel'));
 }
 
+/** Countdown shown while the request scheduler waits out a rate limit. */
+let rateLimitTimer: ReturnType<typeof setInterval> | null = null;
+
+function renderRateLimit(status: SchedulerStatus) {
+  const el = qid('rate-limit-banner');
+  const update = () => {
+    const seconds = Math.ceil((status.waitUntil - Date.now()) / 1000);
+    if (seconds <= 0) {
+      hide(el);
+      if (rateLimitTimer) clearInterval(rateLimitTimer);
+      rateLimitTimer = null;
+      return;
+    }
+    const queued = status.queued > 0 ? ` · ${status.queued} request${status.queued === 1 ? '' : 's'} queued` : '';
+    el.innerHTML = `<span class="status-dot amber"></span><span>Waiting for rate limit… ${seconds}s${queued}</span>`;
+    show(el);
+  };
+  if (rateLimitTimer) clearInterval(rateLimitTimer);
+  rateLimitTimer = null;
+  update();
+  if (status.waitUntil > Date.now()) rateLimitTimer = setInterval(update, 1000);
+}
+
 function showError(msg: string) {
   const el = qid('error-banner');
   el.textContent = msg;
@@ -875,6 +2580,7 @@ function handleMessage(msg: ControllerMessage) {
   switch (msg.type) {
     case 'init-complete': {
       settings = msg.settings;
+      setConcurrency(settings.requestConcurrency);
       selectedLangCodes = new Set(settings.selectedLanguages || []);
       try { renderSettingsValues(); } catch (err) {
         console.error('[PolyPaste] renderSettingsValues error:', err);
@@ -884,6 +2590,12 @@ function handleMessage(msg: ControllerMessage) {
       break;
     }
 
+    case 'profile-data': {
+      documentProfile = msg.profile;
+      renderDocumentProfile();
+      break;
+    }
+
     case 'scan-result': {
       scanResult = msg.result;
       renderSelection();
@@ -898,6 +2610,12 @@ function handleMessage(msg: ControllerMessage) {
       break;
     }
 
+    case 'memory-data': {
+      memoryEntries = msg.entries;
+      renderMemoryList();
+      break;
+    }
+
     case 'selection-changed': {
       send({ type: 'scan-selection' });
       break;
@@ -909,21 +2627,33 @@ function handleMessage(msg: ControllerMessage) {
         langName: msg.langName,
         isRTL: msg.isRTL,
         textEntries: msg.textEntries,
+        cached: msg.cached,
         settings: msg.settings,
       });
       break;
     }
 
+    case 'fit-results': {
+      layoutFits.set(msg.langCode, msg.results);
+      renderStatusList();
+      break;
+    }
+
     case 'language-progress': {
       const p = msg.progress;
       const isRewrite = rewritingLangs.has(p.langCode);
-      // Accept during generation OR during rewrite-shorter
+      // Accept during generation OR during a rewrite
       if (!generating && !isRewrite) return;
       // If this is the final response after a rewrite, clear the flag
       if (isRewrite && (p.status === 'done' || p.status === 'error')) {
         rewritingLangs.delete(p.langCode);
       }
       updateLangProgress(p.langCode, p.status, p.detail, p.qaReport);
+      const pending = pendingQA.get(p.langCode);
+      if (pending && (p.status === 'done' || p.status === 'error')) {
+        pendingQA.delete(p.langCode);
+        pending(p.qaReport);
+      }
       break;
     }
 
@@ -949,6 +2679,12 @@ function handleMessage(msg: ControllerMessage) {
       showError(msg.error);
       generating = false;
       showIdleUI();
+      // An apply-rewrites the controller could not handle will not report back
+      for (const [code, pending] of pendingQA) {
+        pendingQA.delete(code);
+        rewritingLangs.delete(code);
+        pending(undefined);
+      }
       break;
     }
 
@@ -0,0 +1,64 @@
+/**
+ * units.ts – Source-string deduplication
+ *
+ * Screens repeat the same string many times ("Learn more", "Cancel", list
+ * items). Identical source strings in the same context bucket form one
+ * translation unit: only the first entry (the representative) is sent to
+ * the model and its translation is fanned out to every other member, so
+ * repeats cost nothing and always get the same wording.
+ *
+ * The context bucket separates short UI labels from running text, since
+ * the same word may need a different form as a button than inside a
+ * sentence. Mixed-style text is compared by its markup.
+ *
+ * Units are formed when a language is translated (and when it is
+ * rewritten), not in the scan: skip overrides and imports can change
+ * which entries are sent between scanning and running, and the controller
+ * still works per node on purpose — applying text and layout QA are per
+ * layer, and a memory lookup by source text already returns the same hit
+ * for every copy.
+ *
+ * Pure logic — runs in the UI iframe.
+ */
+import { TextEntry } from './types';
+import { sourceText } from './translate';
+
+export interface TranslationUnits {
+  /** First entry of each unit, in scan order — these are translated */
+  representatives: TextEntry[];
+  /** Representative ID → IDs of every entry in its unit (representative included) */
+  members: Map<string, string[]>;
+}
+
+/** Dedup key: exact source text plus context bucket. */
+export function unitKey(entry: TextEntry): string {
+  return `${entry.isLabelLike ? 'label' : 'text'}\u0000${sourceText(entry)}`;
+}
+
+export function groupUnits(entries: TextEntry[]): TranslationUnits {
+  const byKey = new Map<string, string>();
+  const representatives: TextEntry[] = [];
+  const members = new Map<string, string[]>();
+
+  for (const entry of entries) {
+    const key = unitKey(entry);
+    const rep = byKey.get(key);
+    if (rep) {
+      members.get(rep)!.push(entry.id);
+      continue;
+    }
+    byKey.set(key, entry.id);
+    representatives.push(entry);
+    members.set(entry.id, [entry.id]);
+  }
+  return { representatives, members };
+}
+
+/** Copy each representative's translation to every member of its unit. */
+export function fanOut(translations: Record<string, string>, units: TranslationUnits): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [repId, text] of Object.entries(translations)) {
+    for (const id of units.members.get(repId) || [repId]) result[id] = text;
+  }
+  return result;
+}
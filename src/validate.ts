@@ -0,0 +1,148 @@
+/**
+ * validate.ts – Placeholder and markup integrity checks
+ *
+ * The prompt asks the model to keep placeholders, tags and URLs intact;
+ * this module checks that it did. Tokens are extracted from the source
+ * and from the translation and compared as multisets (order may change
+ * between languages, counts may not):
+ *
+ *   placeholders  {name}  {{name}}  {0}  ${name}  %s  %1$d  %@
+ *   tags          <1>…</1>  <b>  <br/>
+ *   URLs          https://…  www.…
+ *   emojis        👋 ✅
+ *   line breaks   number of \n
+ *
+ * Used by translateBatch() to re-request broken entries and by QA to
+ * flag what is still broken after that. QA also uses isUntranslated() to
+ * spot strings the model handed back in the source language.
+ *
+ * Pure string logic — safe to import from both the controller and the UI
+ * (no lookbehind or unicode property escapes; the controller targets ES2017).
+ */
+import { PluginSettings } from './types';
+
+const PLACEHOLDER = /\{\{\s*[\w.-]+\s*\}\}|\$\{[^}]+\}|\{[\w.-]*\}|%(?:\d+\$)?[sdif@]/g;
+const TAG = /<\/?\d+>|<\/?[A-Za-z][\w-]*(?:\s[^<>]*)?\/?>/g;
+/** http(s) and www. links; pseudo.ts leaves these untouched too. */
+export const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'{}]+|\bwww\.[^\s<>"'{}]+/g;
+/** Surrogate-pair pictographs plus the BMP symbol / dingbat blocks. */
+const EMOJI = /\ud83c[\udf00-\udfff]|\ud83d[\udc00-\ude4f\ude80-\udeff]|\ud83e[\udd00-\udfff]|[\u2600-\u27bf]/g;
+
+export interface IntegrityTokens {
+  placeholders: string[];
+  tags: string[];
+  urls: string[];
+  emojis: string[];
+  lineBreaks: number;
+}
+
+function matches(text: string, re: RegExp): string[] {
+  return text.match(re) || [];
+}
+
+/** Extract every protected token from a string. */
+export function extractTokens(text: string): IntegrityTokens {
+  return {
+    placeholders: matches(text, PLACEHOLDER),
+    tags: matches(text, TAG).map(t => t.replace(/\s+/g, ' ')),
+    // Trailing sentence punctuation is not part of the URL
+    urls: matches(text, URL_PATTERN).map(u => u.replace(/[.,;:!?)\]]+$/, '')),
+    emojis: matches(text, EMOJI),
+    lineBreaks: (text.match(/\n/g) || []).length,
+  };
+}
+
+/** Tokens in `expected` but not in `actual` (multiset difference). */
+function missingFrom(expected: string[], actual: string[]): string[] {
+  const left = actual.slice();
+  const missing: string[] = [];
+  for (const token of expected) {
+    const i = left.indexOf(token);
+    if (i === -1) missing.push(token);
+    else left.splice(i, 1);
+  }
+  return missing;
+}
+
+function describe(kind: string, source: string[], target: string[], problems: string[]) {
+  const missing = missingFrom(source, target);
+  const extra = missingFrom(target, source);
+  if (missing.length > 0) problems.push(`missing ${kind} ${missing.join(' ')}`);
+  if (extra.length > 0) problems.push(`unexpected ${kind} ${extra.join(' ')}`);
+}
+
+/**
+ * Compare a translation against its source. Returns human-readable
+ * problems (empty when the translation is intact). Placeholder/URL and
+ * line-break checks follow the preservePlaceholders / preserveLineBreaks
+ * settings; tags and emojis are always checked.
+ */
+export function validateTranslation(source: string, translation: string, settings: PluginSettings): string[] {
+  const src = extractTokens(source);
+  const dst = extractTokens(translation);
+  const problems: string[] = [];
+
+  if (settings.preservePlaceholders) {
+    describe('placeholder', src.placeholders, dst.placeholders, problems);
+    describe('URL', src.urls, dst.urls, problems);
+  }
+  describe('tag', src.tags, dst.tags, problems);
+  describe('emoji', src.emojis, dst.emojis, problems);
+  if (settings.preserveLineBreaks && src.lineBreaks !== dst.lineBreaks) {
+    problems.push(`line breaks ${src.lineBreaks} → ${dst.lineBreaks}`);
+  }
+  return problems;
+}
+
+/**
+ * Validate a set of translations. `sources` maps entry ID → source text.
+ * Returns only the entries that have problems.
+ */
+export function findMismatches(
+  sources: Record<string, string>,
+  translations: Record<string, string>,
+  settings: PluginSettings,
+): Record<string, string[]> {
+  const mismatches: Record<string, string[]> = {};
+  for (const [id, translation] of Object.entries(translations)) {
+    const source = sources[id];
+    if (source === undefined) continue;
+    const problems = validateTranslation(source, translation, settings);
+    if (problems.length > 0) mismatches[id] = problems;
+  }
+  return mismatches;
+}
+
+// ────────────────────────────────────────────
+// Untranslated output
+// ────────────────────────────────────────────
+
+/** Anything that is not whitespace, a digit, ASCII punctuation or general punctuation. */
+const WORDLIKE = /[^\s\d!-\/:-@\[-`{-~\u2000-\u206f]/;
+
+/**
+ * True when the model returned the source unchanged although it contains
+ * words. Not reported: strings made only of allow-listed names, preserve
+ * terms, placeholders, tags and URLs, and targets in the source language
+ * itself (en → en-GB may legitimately be identical).
+ */
+export function isUntranslated(
+  source: string,
+  translation: string,
+  langCode: string,
+  settings: PluginSettings,
+): boolean {
+  if (translation.trim() !== source.trim()) return false;
+  if (langCode.split('-')[0] === settings.sourceLanguage.split('-')[0]) return false;
+
+  let rest = source
+    .replace(PLACEHOLDER, ' ')
+    .replace(TAG, ' ')
+    .replace(URL_PATTERN, ' ')
+    .toLowerCase();
+  for (const term of [...settings.untranslatedAllowList, ...settings.preserveTerms]) {
+    const t = term.trim().toLowerCase();
+    if (t) rest = rest.split(t).join(' ');
+  }
+  return WORDLIKE.test(rest);
+}